@@ -0,0 +1,165 @@
+import { App, Modal, Notice, Setting as PluginSettings, TFile } from 'obsidian'
+import ImageTagPlugin from './main'
+import { validateCategories } from './categories'
+import { findImageNote, readImageNote } from './library'
+import { renderTagPicker } from './picker'
+
+interface BatchSummary {
+	created: string[]
+	updated: string[]
+	skipped: string[]
+	// Notes whose tags would break a category constraint after the merge
+	conflicts: string[]
+	failed: string[]
+}
+
+// ==================== BATCH TAGGING MODAL ====================
+export class BatchTagModal extends Modal {
+	plugin: ImageTagPlugin
+	files: TFile[]
+	selectedTags: Set<string> = new Set()
+	author: string = ''
+	running = false
+
+	constructor(app: App, plugin: ImageTagPlugin, files: TFile[]) {
+		super(app)
+		this.plugin = plugin
+		this.files = files
+	}
+
+	onOpen() {
+		this.titleEl.setText(`Tag ${this.files.length} image${this.files.length === 1 ? '' : 's'}`)
+
+		this.contentEl.createEl('p', {
+			text: 'Selected tags are added to every image. Existing notes keep their current tags.',
+			cls: 'tag-instruction'
+		})
+
+		renderTagPicker(this.contentEl, this.plugin.allTags, this.selectedTags, undefined, this.plugin.settings.tagCategories)
+
+		// Author only applies to newly created notes
+		new PluginSettings(this.contentEl)
+			.setName('Author (optional)')
+			.setDesc('Used for images that do not have a note yet')
+			.addText(text => text
+				.setPlaceholder('E.g. ,author name, studio name')
+				.setValue(this.author)
+				.onChange(value => this.author = value))
+
+		const btnContainer = this.contentEl.createDiv('ImageTag-btn-container')
+
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Apply tags')
+				.setCta()
+				.onClick(() => {
+					if (this.running) return
+					this.applyTags().catch(error => {
+						console.error('Batch tagging failed:', error)
+						new Notice('Batch tagging failed')
+					})
+				}))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+	}
+
+	async applyTags() {
+		const tags = Array.from(this.selectedTags)
+		if (tags.length === 0) {
+			new Notice('Please select at least one tag')
+			return
+		}
+
+		const { settings } = this.plugin
+		const notes = new Map(this.files.map(file => [file, findImageNote(this.app, file, settings.frontmatterKeys)]))
+
+		// New notes get exactly these tags. Existing notes keep theirs, so there the selection
+		// only has to stay within the limits; each merged result is checked below.
+		const needsNewNotes = Array.from(notes.values()).some(note => !note)
+		const limits = settings.tagCategories.map(category => !needsNewNotes && category.constraint === 'exactly-one'
+			? { ...category, constraint: 'at-most-one' as const }
+			: category)
+		const problems = validateCategories(tags, limits)
+		if (problems.length > 0) {
+			new Notice(problems.join('\n'))
+			return
+		}
+
+		this.running = true
+		this.contentEl.empty()
+
+		// Progress indicator
+		const progressText = this.contentEl.createEl('p', { cls: 'ImageTag-batch-progress-text' })
+		const progressBar = this.contentEl.createEl('progress', { cls: 'ImageTag-batch-progress' })
+		progressBar.max = this.files.length
+		progressBar.value = 0
+
+		const summary: BatchSummary = { created: [], updated: [], skipped: [], conflicts: [], failed: [] }
+
+		for (const [index, file] of this.files.entries()) {
+			progressText.setText(`Tagging ${index + 1} of ${this.files.length}: ${file.name}`)
+
+			try {
+				const existingNote = notes.get(file)
+				if (existingNote) {
+					const current = readImageNote(this.app, existingNote, settings.frontmatterKeys)?.tags ?? []
+					const merged = [...new Set([...current, ...tags].map(tag => this.plugin.resolveAlias(tag)))]
+					if (validateCategories(merged, settings.tagCategories).length > 0) {
+						summary.conflicts.push(file.name)
+						progressBar.value = index + 1
+						continue
+					}
+
+					const changed = await this.plugin.mergeTagsIntoNote(existingNote, tags)
+					summary[changed ? 'updated' : 'skipped'].push(file.name)
+				} else {
+					await this.plugin.createImageNote(file, { tags, author: this.author, notes: '' })
+					summary.created.push(file.name)
+				}
+			} catch (error) {
+				console.error(`Error tagging ${file.path}:`, error)
+				summary.failed.push(file.name)
+			}
+
+			progressBar.value = index + 1
+		}
+
+		this.running = false
+		this.renderSummary(summary)
+	}
+
+	renderSummary(summary: BatchSummary) {
+		this.contentEl.empty()
+		this.titleEl.setText('Batch tagging complete')
+
+		const sections: [string, string[]][] = [
+			['Created', summary.created],
+			['Updated', summary.updated],
+			['Skipped (already tagged)', summary.skipped],
+			['Skipped (breaks category rules)', summary.conflicts],
+			['Failed', summary.failed],
+		]
+
+		sections.forEach(([label, files]) => {
+			const details = this.contentEl.createEl('details', { cls: 'ImageTag-batch-summary' })
+			details.createEl('summary', { text: `${label}: ${files.length}` })
+			const list = details.createEl('ul')
+			files.forEach(name => list.createEl('li', { text: name }))
+		})
+
+		const btnContainer = this.contentEl.createDiv('ImageTag-btn-container')
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Done')
+				.setCta()
+				.onClick(() => this.close()))
+
+		new Notice(`Tagged ${this.files.length} images: ${summary.created.length} created, ${summary.updated.length} updated, ${summary.skipped.length + summary.conflicts.length} skipped`)
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
@@ -0,0 +1,388 @@
+import { App, Modal, Notice, Setting as PluginSettings, TFile } from 'obsidian'
+import ImageTagPlugin from './main'
+import { ImageNote, collectImageNotes, findImageNote, readBoards, readImageNote } from './library'
+import { FrontmatterKeys } from './settings'
+
+// ==================== BOARDS ====================
+// Boards are hand-picked collections (a project, a mood) kept apart from descriptive tags.
+// The list of boards lives in settings; which images are on a board is stored in each image note's
+// frontmatter, so membership follows the note through moves and renames.
+
+export function cleanBoardName(name: string): string {
+	return name.replace(/\s+/g, ' ').trim()
+}
+
+// Image notes on a board, from the whole vault since routed notes may live outside the default folder
+export function getBoardNotes(app: App, keys: FrontmatterKeys, board: string): ImageNote[] {
+	return collectImageNotes(app, '', keys).filter(note => note.boards.includes(board))
+}
+
+export function countBoardImages(app: App, keys: FrontmatterKeys): Map<string, number> {
+	const counts = new Map<string, number>()
+	collectImageNotes(app, '', keys).forEach(note => {
+		note.boards.forEach(board => counts.set(board, (counts.get(board) ?? 0) + 1))
+	})
+	return counts
+}
+
+// Rewrite a note's boards, dropping the field once it's empty; returns whether anything changed
+export async function updateNoteBoards(app: App, file: TFile, keys: FrontmatterKeys, update: (boards: string[]) => string[]): Promise<boolean> {
+	let changed = false
+
+	await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		const current = readBoards(frontmatter[keys.boards])
+		const next = [...new Set(update(current))]
+		if (next.length === current.length && next.every((board, i) => board === current[i])) return
+
+		if (next.length > 0) {
+			frontmatter[keys.boards] = next
+		} else {
+			delete frontmatter[keys.boards]
+		}
+		changed = true
+	})
+
+	return changed
+}
+
+// Split images into the notes describing them and the images that have no note yet
+export function findBoardTargets(plugin: ImageTagPlugin, images: TFile[]): { notes: TFile[], untracked: TFile[] } {
+	const notes: TFile[] = []
+	const untracked: TFile[] = []
+
+	images.forEach(image => {
+		const note = findImageNote(plugin.app, image, plugin.settings.frontmatterKeys)
+		if (note) {
+			notes.push(note)
+		} else {
+			untracked.push(image)
+		}
+	})
+
+	return { notes, untracked }
+}
+
+// ==================== BOARD LIST ====================
+export async function createBoard(plugin: ImageTagPlugin, name: string): Promise<string | null> {
+	const board = cleanBoardName(name)
+	if (!board) return null
+
+	if (!plugin.settings.boards.includes(board)) {
+		plugin.settings.boards = [...plugin.settings.boards, board]
+		await plugin.saveSettings()
+		plugin.refreshBoards()
+	}
+	return board
+}
+
+// Rename a board in settings and in every note on it; renaming onto an existing board merges the two
+export async function renameBoard(plugin: ImageTagPlugin, board: string, name: string): Promise<number> {
+	const { app, settings } = plugin
+	const target = cleanBoardName(name)
+	if (!target || target === board) return 0
+
+	let updated = 0
+	for (const note of getBoardNotes(app, settings.frontmatterKeys, board)) {
+		const changed = await updateNoteBoards(app, note.file, settings.frontmatterKeys,
+			boards => boards.map(b => b === board ? target : b))
+		if (changed) updated++
+	}
+
+	settings.boards = [...new Set(settings.boards.map(b => b === board ? target : b))]
+	await plugin.saveSettings()
+	plugin.refreshBoards()
+	return updated
+}
+
+// Delete a board and take it off every note; the images and their notes stay
+export async function deleteBoard(plugin: ImageTagPlugin, board: string): Promise<number> {
+	const { app, settings } = plugin
+
+	let updated = 0
+	for (const note of getBoardNotes(app, settings.frontmatterKeys, board)) {
+		const changed = await updateNoteBoards(app, note.file, settings.frontmatterKeys,
+			boards => boards.filter(b => b !== board))
+		if (changed) updated++
+	}
+
+	settings.boards = settings.boards.filter(b => b !== board)
+	await plugin.saveSettings()
+	plugin.refreshBoards()
+	return updated
+}
+
+// ==================== BOARD PICKER MODAL ====================
+// Add images to boards. With a single note, unticking a board also takes the image off it;
+// with several, ticked boards are only added. Images without a note get one first.
+export class BoardPickerModal extends Modal {
+	plugin: ImageTagPlugin
+	notes: TFile[]
+	untracked: TFile[]
+	selected: Set<string>
+	initial: Set<string>
+	listEl: HTMLElement
+
+	constructor(app: App, plugin: ImageTagPlugin, notes: TFile[], untracked: TFile[] = []) {
+		super(app)
+		this.plugin = plugin
+		this.notes = notes
+		this.untracked = untracked
+
+		const single = notes.length === 1 && untracked.length === 0 ? notes[0] : undefined
+		const current = single ? readImageNote(app, single, plugin.settings.frontmatterKeys)?.boards ?? [] : []
+		this.initial = new Set(current)
+		this.selected = new Set(current)
+	}
+
+	private get total(): number {
+		return this.notes.length + this.untracked.length
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		this.modalEl.addClass('board-picker-modal')
+		this.titleEl.setText(this.total === 1 ? 'Add to board' : `Add ${this.total} images to boards`)
+
+		if (this.untracked.length > 0) {
+			contentEl.createEl('p', {
+				text: `${this.untracked.length} image${this.untracked.length === 1 ? ' has' : 's have'} no note yet; one is created for each.`,
+				cls: 'tag-instruction'
+			})
+		}
+
+		this.listEl = contentEl.createDiv('board-picker-list')
+		this.renderList()
+
+		// New boards are created on the spot and ticked
+		new PluginSettings(contentEl)
+			.setName('New board')
+			.addText(text => {
+				text.setPlaceholder('Spring mood')
+				text.inputEl.addEventListener('keydown', (evt) => {
+					if (evt.key !== 'Enter') return
+					evt.preventDefault()
+					this.addBoard(text.getValue())
+						.then(() => text.setValue(''))
+						.catch(error => console.error('Failed to create board:', error))
+				})
+			})
+
+		const btnContainer = contentEl.createDiv('ImageTag-btn-container')
+
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					this.apply().catch(error => {
+						console.error('Failed to update boards:', error)
+						new Notice('Failed to update boards')
+					})
+				}))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+	}
+
+	private renderList() {
+		this.listEl.empty()
+
+		const boards = this.plugin.settings.boards
+		if (boards.length === 0) {
+			this.listEl.createEl('p', { text: 'No boards yet. Name one below to create it.', cls: 'board-picker-empty' })
+			return
+		}
+
+		boards.forEach(board => {
+			const row = this.listEl.createEl('label', { cls: 'board-picker-row' })
+			const checkbox = row.createEl('input', { type: 'checkbox' })
+			checkbox.checked = this.selected.has(board)
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(board)
+				} else {
+					this.selected.delete(board)
+				}
+			})
+			row.createSpan({ text: board })
+		})
+	}
+
+	private async addBoard(name: string) {
+		const board = await createBoard(this.plugin, name)
+		if (!board) return
+		this.selected.add(board)
+		this.renderList()
+	}
+
+	private async apply() {
+		const { app, settings } = this.plugin
+		const keys = settings.frontmatterKeys
+		const added = Array.from(this.selected).filter(board => !this.initial.has(board))
+		const removed = Array.from(this.initial).filter(board => !this.selected.has(board))
+
+		let updated = 0
+		for (const note of this.notes) {
+			const changed = await updateNoteBoards(app, note, keys,
+				boards => [...boards.filter(b => !removed.includes(b)), ...added])
+			if (changed) updated++
+		}
+
+		if (added.length > 0) {
+			for (const image of this.untracked) {
+				await this.plugin.createImageNote(image, { tags: [], author: '', notes: '', boards: added })
+				updated++
+			}
+		}
+
+		new Notice(updated > 0
+			? `Updated boards of ${updated} image${updated === 1 ? '' : 's'}`
+			: 'Boards unchanged')
+		this.close()
+	}
+
+	onClose() {
+		this.contentEl.empty()
+	}
+}
+
+// ==================== BOARD NAME MODAL ====================
+export class BoardNameModal extends Modal {
+	name: string
+	onSave: (name: string) => void | Promise<void>
+
+	constructor(app: App, name: string, onSave: (name: string) => void | Promise<void>) {
+		super(app)
+		this.name = name
+		this.onSave = onSave
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		this.titleEl.setText(this.name ? `Rename board: ${this.name}` : 'New board')
+
+		new PluginSettings(contentEl)
+			.setName('Name')
+			.addText(text => {
+				text.setPlaceholder('Project X - armour')
+					.setValue(this.name)
+					.onChange(value => this.name = value)
+				text.inputEl.addEventListener('keydown', (evt) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault()
+						this.save()
+					}
+				})
+				window.setTimeout(() => text.inputEl.select(), 0)
+			})
+
+		const btnContainer = contentEl.createDiv('ImageTag-btn-container')
+
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => this.save()))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+	}
+
+	private save() {
+		const name = cleanBoardName(this.name)
+		if (!name) {
+			new Notice('Please enter a board name')
+			return
+		}
+
+		Promise.resolve(this.onSave(name)).catch(error => {
+			console.error('Failed to save board:', error)
+		})
+		this.close()
+	}
+
+	onClose() {
+		this.contentEl.empty()
+	}
+}
+
+// ==================== SIDEBAR BOARD LIST ====================
+// Shown under the tag manager in the same sidebar view
+export class BoardListView {
+	plugin: ImageTagPlugin
+	containerEl: HTMLElement
+
+	constructor(plugin: ImageTagPlugin, containerEl: HTMLElement) {
+		this.plugin = plugin
+		this.containerEl = containerEl
+		this.render()
+	}
+
+	render() {
+		const { containerEl, plugin } = this
+		containerEl.empty()
+
+		const header = containerEl.createDiv('board-list-header')
+		header.createEl('h3', { text: 'Boards' })
+		const addBtn = header.createEl('button', { text: '+', cls: 'board-list-add', title: 'New board' })
+		addBtn.addEventListener('click', () => {
+			new BoardNameModal(plugin.app, '', async (name) => {
+				await createBoard(plugin, name)
+			}).open()
+		})
+
+		const boards = plugin.settings.boards
+		if (boards.length === 0) {
+			containerEl.createEl('p', {
+				text: 'Collect images per project or mood. Add images from their file menu or the tag modal.',
+				cls: 'board-list-empty'
+			})
+			return
+		}
+
+		const counts = countBoardImages(plugin.app, plugin.settings.frontmatterKeys)
+		const list = containerEl.createDiv('board-list')
+
+		boards.forEach(board => {
+			const item = list.createDiv('tag-manager-item board-list-item')
+			const content = item.createDiv('tag-content')
+			content.createEl('span', { text: String(counts.get(board) ?? 0), cls: 'tag-count' })
+			content.createEl('span', { text: board, cls: 'tag-name' })
+			content.addEventListener('click', () => {
+				plugin.activateBoardView(board).catch(error => {
+					console.error(error)
+				})
+			})
+
+			const btnContainer = item.createDiv('btn-Container')
+
+			const renameBtn = btnContainer.createEl('button', { text: '✎', cls: 'tag-edit-btn', title: 'Rename board' })
+			renameBtn.addEventListener('click', () => {
+				new BoardNameModal(plugin.app, board, async (name) => {
+					const updated = await renameBoard(plugin, board, name)
+					new Notice(`Renamed board to ${cleanBoardName(name)} (${updated} note${updated === 1 ? '' : 's'} updated)`)
+				}).open()
+			})
+
+			const deleteBtn = btnContainer.createEl('button', { text: '×', cls: 'tag-delete-btn', title: 'Delete board' })
+			deleteBtn.addEventListener('click', () => {
+				this.confirmDelete(board, counts.get(board) ?? 0).catch(error => {
+					console.error('Failed to delete board:', error)
+					new Notice('Failed to delete board')
+				})
+			})
+		})
+	}
+
+	private async confirmDelete(board: string, count: number) {
+		const confirmed = await this.plugin.showCriticalWarning(
+			'Delete board',
+			{ txt: `"${board}" will be removed from ${count} note${count === 1 ? '' : 's'}. The images and their notes are kept.` },
+			'Delete'
+		)
+		if (!confirmed) return
+
+		const updated = await deleteBoard(this.plugin, board)
+		new Notice(`Deleted board ${board} (${updated} note${updated === 1 ? '' : 's'} updated)`)
+	}
+}
@@ -0,0 +1,190 @@
+import { App, Modal, Notice, Setting as PluginSettings, getIcon, setIcon } from 'obsidian'
+import { CategoryConstraint, TagCategory } from './settings'
+import { cleanTag, isTagOrDescendant } from './tags'
+
+// ==================== TAG CATEGORIES ====================
+// Categories group tags (Medium, Subject, Lighting...) with a color and icon, and can require exactly one
+// or at most one of their tags per image. A category covers the tags it lists and everything nested below them.
+
+export const CONSTRAINT_LABELS: Record<CategoryConstraint, string> = {
+	'any': 'Any number',
+	'exactly-one': 'Exactly one',
+	'at-most-one': 'At most one'
+}
+
+export function createEmptyCategory(): TagCategory {
+	return {
+		name: 'New category',
+		color: '#7f6df2',
+		icon: '',
+		tags: [],
+		constraint: 'any'
+	}
+}
+
+// The category listing the most specific match, so `subject/people` can sit apart from `subject`
+export function getTagCategory(tag: string, categories: TagCategory[]): TagCategory | null {
+	let best: TagCategory | null = null
+	let bestLength = -1
+
+	categories.forEach(category => {
+		category.tags.forEach(listed => {
+			if (isTagOrDescendant(tag, listed) && listed.length > bestLength) {
+				best = category
+				bestLength = listed.length
+			}
+		})
+	})
+
+	return best
+}
+
+// Tags split into category sections in settings order, uncategorized tags last
+export function groupByCategory(tags: string[], categories: TagCategory[]): { category: TagCategory | null, tags: string[] }[] {
+	const groups = new Map<TagCategory | null, string[]>()
+	categories.forEach(category => groups.set(category, []))
+	groups.set(null, [])
+
+	tags.forEach(tag => groups.get(getTagCategory(tag, categories))?.push(tag))
+
+	return Array.from(groups.entries())
+		.filter(([, grouped]) => grouped.length > 0)
+		.map(([category, grouped]) => ({ category, tags: grouped }))
+}
+
+// Messages for every category whose constraint the tags break; empty when the tags are valid
+export function validateCategories(tags: string[], categories: TagCategory[]): string[] {
+	const problems: string[] = []
+
+	categories.forEach(category => {
+		if (category.constraint === 'any') return
+		const picked = tags.filter(tag => getTagCategory(tag, categories) === category)
+
+		if (category.constraint === 'exactly-one' && picked.length === 0) {
+			problems.push(`Pick one ${category.name} tag`)
+		} else if (picked.length > 1) {
+			problems.push(`Pick only one ${category.name} tag (${picked.join(', ')})`)
+		}
+	})
+
+	return problems
+}
+
+// Color an element (through `--tag-category-color`) and optionally put the category icon in front of it
+export function applyCategoryStyle(el: HTMLElement, category: TagCategory | null, withIcon = true) {
+	if (!category) return
+
+	el.addClass('has-tag-category')
+	el.style.setProperty('--tag-category-color', category.color)
+
+	if (withIcon) {
+		const icon = renderCategoryIcon(el, category)
+		if (icon) el.prepend(icon)
+	}
+}
+
+// Append the category icon to `parent`; unknown icon ids render nothing rather than an empty box
+export function renderCategoryIcon(parent: HTMLElement, category: TagCategory): HTMLElement | null {
+	if (!category.icon || !getIcon(category.icon)) return null
+	const icon = parent.createSpan({ cls: 'tag-category-icon' })
+	setIcon(icon, category.icon)
+	return icon
+}
+
+// Heading of a category section: icon, name and the constraint, if any
+export function renderCategoryHeader(container: HTMLElement, category: TagCategory | null, cls: string) {
+	const header = container.createDiv(cls)
+	const label = header.createSpan({ text: category?.name ?? 'Other' })
+	applyCategoryStyle(label, category)
+
+	if (category && category.constraint !== 'any') {
+		header.createSpan({ text: CONSTRAINT_LABELS[category.constraint].toLowerCase(), cls: 'tag-category-constraint' })
+	}
+	return header
+}
+
+// ==================== CATEGORY EDITOR MODAL ====================
+export class TagCategoryModal extends Modal {
+	category: TagCategory
+	onSave: (category: TagCategory) => void | Promise<void>
+
+	constructor(app: App, category: TagCategory, onSave: (category: TagCategory) => void | Promise<void>) {
+		super(app)
+		// Edit a copy so cancelling leaves the saved category untouched
+		this.category = { ...category, tags: [...category.tags] }
+		this.onSave = onSave
+	}
+
+	onOpen() {
+		const { contentEl, category } = this
+		this.titleEl.setText('Tag category')
+
+		new PluginSettings(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setPlaceholder('Medium')
+				.setValue(category.name)
+				.onChange(value => category.name = value))
+
+		new PluginSettings(contentEl)
+			.setName('Tags')
+			.setDesc('Comma-separated. Tags nested below a listed tag belong to the category too.')
+			.addText(text => text
+				.setPlaceholder('Oil, watercolor, medium/digital')
+				.setValue(category.tags.join(', '))
+				.onChange(value => category.tags = [...new Set(value.split(',').map(cleanTag).filter(Boolean))]))
+
+		new PluginSettings(contentEl)
+			.setName('Color')
+			.addColorPicker(picker => picker
+				.setValue(category.color)
+				.onChange(value => category.color = value))
+
+		new PluginSettings(contentEl)
+			.setName('Icon')
+			.setDesc('Optional icon name, for example palette, user or sun')
+			.addText(text => text
+				.setPlaceholder('Palette')
+				.setValue(category.icon)
+				.onChange(value => category.icon = value.trim()))
+
+		new PluginSettings(contentEl)
+			.setName('Tags per image')
+			.setDesc('Checked before an image note is saved')
+			.addDropdown(dropdown => dropdown
+				.addOptions(CONSTRAINT_LABELS)
+				.setValue(category.constraint)
+				.onChange(value => category.constraint = value as CategoryConstraint))
+
+		const btnContainer = contentEl.createDiv('ImageTag-btn-container')
+
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => this.save()))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+	}
+
+	private save() {
+		const { category } = this
+
+		if (category.icon && !getIcon(category.icon)) {
+			new Notice(`Unknown icon: ${category.icon}`)
+			return
+		}
+
+		category.name = category.name.trim() || 'Untitled category'
+		Promise.resolve(this.onSave(category)).catch(error => {
+			console.error('Failed to save category:', error)
+		})
+		this.close()
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
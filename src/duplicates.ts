@@ -0,0 +1,393 @@
+import { App, ItemView, Notice, Setting as PluginSettings, TFile, WorkspaceLeaf, debounce, normalizePath } from 'obsidian'
+import ImageTagPlugin from './main'
+import { ImageNote, collectImageNotes, extractNotesSection, isImageFile, loadImage, normalizeTags, replaceNotesSection } from './library'
+import { archiveFile } from './sync'
+
+export const VIEW_TYPE_IMAGE_DUPLICATES = 'image-duplicates-view'
+
+// ==================== PERCEPTUAL HASHES ====================
+// dHash: the image is shrunk to 9x8 grayscale pixels and each bit records whether a pixel is
+// brighter than its right neighbour. Resized and re-encoded copies end up a few bits apart at most.
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+// 64-bit hash as 16 hex characters, or null when the image can't be decoded
+export async function computeImageHash(app: App, image: TFile): Promise<string | null> {
+	const img = await loadImage(app, image)
+	if (!img || img.naturalWidth === 0 || img.naturalHeight === 0) return null
+
+	const canvas = document.createElement('canvas')
+	canvas.width = HASH_WIDTH
+	canvas.height = HASH_HEIGHT
+	const context = canvas.getContext('2d', { willReadFrequently: true })
+	if (!context) return null
+
+	// Transparent areas count as white rather than black
+	context.fillStyle = '#ffffff'
+	context.fillRect(0, 0, HASH_WIDTH, HASH_HEIGHT)
+	context.imageSmoothingQuality = 'high'
+	context.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT)
+	const pixels = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data
+
+	const gray = (x: number, y: number) => {
+		const i = (y * HASH_WIDTH + x) * 4
+		return 0.299 * (pixels[i] ?? 0) + 0.587 * (pixels[i + 1] ?? 0) + 0.114 * (pixels[i + 2] ?? 0)
+	}
+
+	const words = [0, 0]
+	for (let y = 0; y < HASH_HEIGHT; y++) {
+		for (let x = 0; x < HASH_WIDTH - 1; x++) {
+			const bit = y * (HASH_WIDTH - 1) + x
+			if (gray(x, y) > gray(x + 1, y)) {
+				words[bit >> 5] = ((words[bit >> 5] ?? 0) | (1 << (bit & 31))) >>> 0
+			}
+		}
+	}
+
+	return words.map(word => word.toString(16).padStart(8, '0')).join('')
+}
+
+function parseHash(hash: string): [number, number] {
+	return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)]
+}
+
+function popCount(value: number): number {
+	let x = value - ((value >>> 1) & 0x55555555)
+	x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+	return Math.imul((x + (x >>> 4)) & 0x0F0F0F0F, 0x01010101) >>> 24
+}
+
+// Number of differing bits between two hashes
+export function hashDistance(a: string, b: string): number {
+	const [a1, a2] = parseHash(a)
+	const [b1, b2] = parseHash(b)
+	return popCount(a1 ^ b1) + popCount(a2 ^ b2)
+}
+
+// ==================== HASH CACHE ====================
+// Hashes are kept in plugin data keyed by path, and recomputed when the file's mtime changes
+export class ImageHashCache {
+	plugin: ImageTagPlugin
+
+	private requestSave = debounce(() => {
+		this.plugin.saveSettings().catch(error => {
+			console.error('Failed to save image hashes:', error)
+		})
+	}, 2000, true)
+
+	constructor(plugin: ImageTagPlugin) {
+		this.plugin = plugin
+	}
+
+	// Cached hash if it is still current, without decoding anything
+	getCachedHash(file: TFile): string | null {
+		const entry = this.plugin.settings.imageHashes[file.path]
+		return entry && entry.mtime === file.stat.mtime ? entry.hash : null
+	}
+
+	async getHash(file: TFile): Promise<string | null> {
+		const cached = this.getCachedHash(file)
+		if (cached) return cached
+
+		const hash = await computeImageHash(this.plugin.app, file)
+		if (hash) {
+			this.plugin.settings.imageHashes[file.path] = { mtime: file.stat.mtime, hash }
+			this.requestSave()
+		}
+		return hash
+	}
+
+	renameFile(oldPath: string, newPath: string) {
+		const entry = this.plugin.settings.imageHashes[oldPath]
+		if (!entry) return
+
+		delete this.plugin.settings.imageHashes[oldPath]
+		this.plugin.settings.imageHashes[newPath] = entry
+		this.requestSave()
+	}
+
+	removeFile(path: string) {
+		if (!this.plugin.settings.imageHashes[path]) return
+
+		delete this.plugin.settings.imageHashes[path]
+		this.requestSave()
+	}
+}
+
+// ==================== DUPLICATE GROUPING ====================
+// Images whose hashes are within `threshold` bits of each other, directly or through a chain of near matches
+export function groupDuplicates(hashes: Map<TFile, string>, threshold: number): TFile[][] {
+	const files = Array.from(hashes.keys())
+	const parsed = files.map(file => parseHash(hashes.get(file) ?? ''))
+	const parent = files.map((_, i) => i)
+
+	const find = (i: number): number => {
+		while (parent[i] !== i) {
+			const next = parent[i] ?? i
+			parent[i] = parent[next] ?? next
+			i = next
+		}
+		return i
+	}
+
+	for (let i = 0; i < files.length; i++) {
+		const [a1, a2] = parsed[i] ?? [0, 0]
+		for (let j = i + 1; j < files.length; j++) {
+			const [b1, b2] = parsed[j] ?? [0, 0]
+			if (popCount(a1 ^ b1) + popCount(a2 ^ b2) <= threshold) {
+				parent[find(j)] = find(i)
+			}
+		}
+	}
+
+	const groups = new Map<number, TFile[]>()
+	files.forEach((file, i) => {
+		const root = find(i)
+		const group = groups.get(root) ?? []
+		group.push(file)
+		groups.set(root, group)
+	})
+
+	return Array.from(groups.values()).filter(group => group.length > 1)
+}
+
+// Hash tagged images that have no current hash, e.g. ones tagged before duplicate detection existed.
+// Runs in the background at startup so the tag modal's duplicate check mostly finds them cached.
+export async function backfillTaggedHashes(plugin: ImageTagPlugin) {
+	for (const note of collectImageNotes(plugin.app, '', plugin.settings.frontmatterKeys)) {
+		if (note.imageFile && !plugin.hashCache.getCachedHash(note.imageFile)) {
+			await plugin.hashCache.getHash(note.imageFile)
+		}
+	}
+}
+
+// The closest already-tagged image that `image` duplicates. Only cached hashes are compared, so opening
+// the tag modal never waits on hashing the library; `backfillTaggedHashes` fills in the missing ones.
+export async function findTaggedDuplicate(plugin: ImageTagPlugin, image: TFile): Promise<ImageNote | null> {
+	const hash = await plugin.hashCache.getHash(image)
+	if (!hash) return null
+
+	let best: ImageNote | null = null
+	let bestDistance = plugin.settings.duplicateThreshold + 1
+
+	for (const note of collectImageNotes(plugin.app, '', plugin.settings.frontmatterKeys)) {
+		if (!note.imageFile || note.imageFile === image) continue
+		const otherHash = plugin.hashCache.getCachedHash(note.imageFile)
+		if (!otherHash) continue
+
+		const distance = hashDistance(hash, otherHash)
+		if (distance < bestDistance) {
+			best = note
+			bestDistance = distance
+		}
+	}
+
+	return best
+}
+
+// ==================== MERGING ====================
+export type DuplicateRemoval = 'archive' | 'delete'
+
+// Fold the notes of `duplicates` into the keeper's note, then remove the duplicates and their notes
+export async function mergeDuplicates(plugin: ImageTagPlugin, keeper: TFile, duplicates: TFile[], removal: DuplicateRemoval) {
+	const { app } = plugin
+	const keys = plugin.settings.frontmatterKeys
+	const notes = collectImageNotes(app, '', keys)
+
+	const keeperNote = notes.find(note => note.imageFile === keeper)
+	const duplicateNotes = notes.filter(note => note.imageFile && duplicates.includes(note.imageFile))
+
+	if (duplicateNotes.length > 0) {
+		const tags = new Set(keeperNote?.tags ?? [])
+		duplicateNotes.forEach(note => note.tags.forEach(tag => tags.add(tag)))
+
+		const author = keeperNote?.author || duplicateNotes.find(note => note.author)?.author || ''
+
+		const noteTexts: string[] = []
+		for (const note of keeperNote ? [keeperNote, ...duplicateNotes] : duplicateNotes) {
+			const text = extractNotesSection(await app.vault.cachedRead(note.file)).trim()
+			if (text && !noteTexts.includes(text)) noteTexts.push(text)
+		}
+		const mergedNotes = noteTexts.join('\n\n')
+
+		if (keeperNote) {
+			await app.fileManager.processFrontMatter(keeperNote.file, (frontmatter: Record<string, unknown>) => {
+				const current = normalizeTags(frontmatter[keys.tags])
+				frontmatter[keys.tags] = [...new Set([...current, ...tags])]
+				if (author && !frontmatter[keys.author]) frontmatter[keys.author] = author
+			})
+			await app.vault.process(keeperNote.file, (data) => replaceNotesSection(data, mergedNotes))
+		} else {
+			await plugin.createImageNote(keeper, { tags: Array.from(tags), author, notes: mergedNotes })
+		}
+	}
+
+	// Notes go first, so removing their images doesn't ask what to do with them
+	const remove = (file: TFile) => removal === 'archive' ? archiveFile(plugin, file) : app.fileManager.trashFile(file)
+	for (const note of duplicateNotes) {
+		await remove(note.file)
+	}
+	for (const image of duplicates) {
+		await remove(image)
+	}
+}
+
+// ==================== DUPLICATES VIEW ====================
+export class ImageDuplicatesView extends ItemView {
+	plugin: ImageTagPlugin
+	groups: TFile[][] = []
+	removal: DuplicateRemoval = 'archive'
+	scanning = false
+	scanned = false
+	statusEl: HTMLElement
+
+	constructor(leaf: WorkspaceLeaf, plugin: ImageTagPlugin) {
+		super(leaf)
+		this.plugin = plugin
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_IMAGE_DUPLICATES
+	}
+
+	getDisplayText(): string {
+		return 'Image duplicates'
+	}
+
+	getIcon(): string {
+		return 'copy'
+	}
+
+	onOpen(): Promise<void> {
+		this.containerEl.addClass('image-duplicates-view')
+		this.render()
+		return Promise.resolve()
+	}
+
+	onClose(): Promise<void> {
+		this.containerEl.empty()
+		return Promise.resolve()
+	}
+
+	async scan() {
+		if (this.scanning) return
+		this.scanning = true
+
+		// Archived copies are duplicates on purpose
+		const archive = this.plugin.settings.archiveFolder ? `${normalizePath(this.plugin.settings.archiveFolder)}/` : null
+		const images = this.app.vault.getFiles()
+			.filter(file => isImageFile(file) && (!archive || !file.path.startsWith(archive)))
+
+		const hashes = new Map<TFile, string>()
+		try {
+			for (let i = 0; i < images.length; i++) {
+				const image = images[i]
+				if (!image) continue
+
+				const hash = await this.plugin.hashCache.getHash(image)
+				if (hash) hashes.set(image, hash)
+
+				// Yield now and then so the app stays responsive on large libraries
+				if (i % 20 === 0) {
+					this.statusEl?.setText(`Hashing images: ${i + 1}/${images.length}`)
+					await new Promise(resolve => window.setTimeout(resolve, 0))
+				}
+			}
+
+			this.groups = groupDuplicates(hashes, this.plugin.settings.duplicateThreshold)
+			this.scanned = true
+		} finally {
+			this.scanning = false
+			this.render()
+		}
+	}
+
+	render() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		const header = contentEl.createDiv('image-duplicates-header')
+		header.createEl('h3', { text: 'Image duplicates' })
+
+		new PluginSettings(contentEl)
+			.setName('Remove duplicates by')
+			.addDropdown(dropdown => dropdown
+				.addOptions({ archive: 'Moving them to the archive folder', delete: 'Deleting them' })
+				.setValue(this.removal)
+				.onChange(value => this.removal = value as DuplicateRemoval))
+			.addButton(btn => btn
+				.setButtonText(this.scanned ? 'Rescan' : 'Scan')
+				.setCta()
+				.setDisabled(this.scanning)
+				.onClick(() => {
+					this.scan().catch(error => {
+						console.error('Duplicate scan failed:', error)
+						new Notice('Duplicate scan failed')
+					})
+				}))
+
+		this.statusEl = contentEl.createEl('p', { cls: 'image-duplicates-status' })
+
+		if (!this.scanned) {
+			this.statusEl.setText('Scan the vault to find images that look the same, including resized and re-encoded copies.')
+			return
+		}
+
+		if (this.groups.length === 0) {
+			this.statusEl.setText('No duplicates found.')
+			return
+		}
+
+		this.statusEl.setText(`${this.groups.length} group${this.groups.length === 1 ? '' : 's'} of duplicates. Pick the copy to keep in each group.`)
+		this.groups.forEach(group => this.renderGroup(contentEl, group))
+	}
+
+	renderGroup(container: HTMLElement, group: TFile[]) {
+		const groupEl = container.createDiv('image-duplicates-group')
+		const notes = collectImageNotes(this.app, '', this.plugin.settings.frontmatterKeys)
+
+		group.forEach(image => {
+			const note = notes.find(n => n.imageFile === image)
+			const card = groupEl.createDiv('image-duplicates-card')
+
+			card.createEl('img', {
+				cls: 'image-duplicates-thumb',
+				attr: { src: this.app.vault.getResourcePath(image), loading: 'lazy', title: image.path }
+			})
+			card.createDiv({ text: image.path, cls: 'image-duplicates-path' })
+			card.createDiv({
+				text: [`${Math.round(image.stat.size / 1024)} KB`, note ? `tagged: ${note.tags.join(', ') || 'no tags'}` : 'untagged'].join(' · '),
+				cls: 'image-duplicates-meta'
+			})
+
+			const keepBtn = card.createEl('button', { text: 'Keep this' })
+			keepBtn.addEventListener('click', () => {
+				this.keep(group, image).catch(error => {
+					console.error('Failed to merge duplicates:', error)
+					new Notice('Failed to merge duplicates')
+				})
+			})
+		})
+	}
+
+	async keep(group: TFile[], keeper: TFile) {
+		const duplicates = group.filter(image => image !== keeper)
+		const action = this.removal === 'archive' ? 'moved to the archive folder' : 'deleted'
+
+		const confirmed = await this.plugin.showCriticalWarning(
+			`Keep ${keeper.name}`,
+			{
+				txt: `Tags, authors and notes of ${duplicates.length} duplicate${duplicates.length === 1 ? '' : 's'} are merged into this image's note.`,
+				txt1: `The duplicates and their notes will be ${action}.`
+			},
+			'Merge'
+		)
+		if (!confirmed) return
+
+		await mergeDuplicates(this.plugin, keeper, duplicates, this.removal)
+		this.groups = this.groups.filter(g => g !== group)
+		new Notice(`Merged ${duplicates.length} duplicate${duplicates.length === 1 ? '' : 's'} into ${keeper.name}`)
+		this.render()
+	}
+}
@@ -0,0 +1,225 @@
+import { ItemView, Keymap, Notice, ViewStateResult, WorkspaceLeaf, debounce } from 'obsidian'
+import ImageTagPlugin from './main'
+import { updateNoteBoards } from './boards'
+import { ImageNote, collectImageNotes, collectLibraryNotes, getLibraryFolders } from './library'
+import { getTagAncestors, isTagOrDescendant } from './tags'
+
+export const VIEW_TYPE_IMAGE_GALLERY = 'image-gallery-view'
+
+// ==================== IMAGE GALLERY VIEW ====================
+// Shows the image library, or a single board when opened with a `board` in its view state
+export class ImageGalleryView extends ItemView {
+	plugin: ImageTagPlugin
+	activeTags: Set<string> = new Set()
+	notes: ImageNote[] = []
+	board: string | null = null
+
+	private requestRefresh = debounce(() => this.refresh(), 300, true)
+
+	constructor(leaf: WorkspaceLeaf, plugin: ImageTagPlugin) {
+		super(leaf)
+		this.plugin = plugin
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_IMAGE_GALLERY
+	}
+
+	getDisplayText(): string {
+		return this.board ? `Board: ${this.board}` : 'Image gallery'
+	}
+
+	getIcon(): string {
+		return this.board ? 'layout-dashboard' : 'layout-grid'
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), board: this.board }
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const board: unknown = (state as { board?: unknown } | null)?.board
+		this.board = typeof board === 'string' && board ? board : null
+		this.activeTags.clear()
+		await super.setState(state, result)
+		this.refresh()
+	}
+
+	onOpen(): Promise<void> {
+		this.containerEl.addClass('image-gallery-view')
+
+		// Keep the grid in sync with notes being tagged, edited or removed
+		this.registerEvent(this.app.metadataCache.on('changed', () => this.requestRefresh()))
+		this.registerEvent(this.app.vault.on('delete', () => this.requestRefresh()))
+		this.registerEvent(this.app.vault.on('rename', () => this.requestRefresh()))
+
+		this.refresh()
+		return Promise.resolve()
+	}
+
+	onClose(): Promise<void> {
+		this.containerEl.empty()
+		return Promise.resolve()
+	}
+
+	refresh() {
+		const { settings } = this.plugin
+		const board = this.board
+		// Board members can live anywhere in the vault
+		this.notes = board
+			? collectImageNotes(this.app, '', settings.frontmatterKeys).filter(note => note.boards.includes(board))
+			: collectLibraryNotes(this.app, settings)
+		this.render()
+	}
+
+	render() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		const visible = this.getVisibleNotes()
+
+		// Header
+		const header = contentEl.createDiv('image-gallery-header')
+		header.createEl('h3', { text: this.board ?? 'Image gallery' })
+		header.createEl('p', {
+			text: `Showing ${visible.length} of ${this.notes.length} images`,
+			cls: 'image-gallery-stats'
+		})
+
+		this.renderTagFilters(contentEl)
+
+		if (visible.length === 0) {
+			contentEl.createEl('p', {
+				text: this.notes.length === 0
+					? this.board
+						? 'No images on this board yet. Add them from their file menu or the tag modal.'
+						: `No tagged images found in "${getLibraryFolders(this.plugin.settings).map(folder => folder || '/').join('", "')}"`
+					: 'No images match the selected tags',
+				cls: 'image-gallery-empty'
+			})
+			return
+		}
+
+		const grid = contentEl.createDiv('image-gallery-grid')
+		visible.forEach(note => this.createGalleryItem(note, grid))
+	}
+
+	// Tag chips: selecting several narrows the grid to images carrying all of them
+	renderTagFilters(container: HTMLElement) {
+		const tagCounts: Record<string, number> = {}
+		this.notes.forEach(note => {
+			// Nested tags also count towards their parents
+			const noteTags = new Set<string>()
+			note.tags.forEach(tag => getTagAncestors(tag).forEach(t => noteTags.add(t)))
+			noteTags.forEach(tag => {
+				tagCounts[tag] = (tagCounts[tag] || 0) + 1
+			})
+		})
+
+		const tags = Object.keys(tagCounts).sort((a, b) => a.localeCompare(b))
+		if (tags.length === 0) return
+
+		const filterContainer = container.createDiv('image-gallery-filters')
+
+		if (this.activeTags.size > 0) {
+			const clearChip = filterContainer.createEl('button', {
+				text: 'Clear',
+				cls: 'image-gallery-chip image-gallery-chip-clear'
+			})
+			clearChip.addEventListener('click', () => {
+				this.activeTags.clear()
+				this.render()
+			})
+		}
+
+		tags.forEach(tag => {
+			const chip = filterContainer.createEl('button', {
+				text: `${tag} (${tagCounts[tag] ?? 0})`,
+				cls: 'image-gallery-chip'
+			})
+
+			if (this.activeTags.has(tag)) {
+				chip.addClass('image-gallery-chip-active')
+			}
+
+			chip.addEventListener('click', () => {
+				if (this.activeTags.has(tag)) {
+					this.activeTags.delete(tag)
+				} else {
+					this.activeTags.add(tag)
+				}
+				this.render()
+			})
+		})
+	}
+
+	createGalleryItem(note: ImageNote, container: HTMLElement) {
+		const item = container.createDiv('image-gallery-item')
+
+		if (note.imageFile) {
+			item.createEl('img', {
+				cls: 'image-gallery-thumb',
+				attr: {
+					src: this.app.vault.getResourcePath(note.imageFile),
+					alt: note.image,
+					loading: 'lazy'
+				}
+			})
+		} else {
+			item.createDiv({ text: 'Image not found', cls: 'image-gallery-missing' })
+		}
+
+		// On a board, images can be taken off it right from the grid
+		const board = this.board
+		if (board) {
+			const removeBtn = item.createEl('button', { text: '×', cls: 'image-gallery-remove', title: 'Remove from board' })
+			removeBtn.addEventListener('click', (evt) => {
+				evt.stopPropagation()
+				updateNoteBoards(this.app, note.file, this.plugin.settings.frontmatterKeys, boards => boards.filter(b => b !== board))
+					.then(() => new Notice(`Removed ${note.file.basename} from ${board}`))
+					.catch(error => {
+						console.error('Failed to update boards:', error)
+						new Notice('Failed to update boards')
+					})
+			})
+		}
+
+		const caption = item.createDiv('image-gallery-caption')
+		caption.createEl('span', { text: note.file.basename, cls: 'image-gallery-title' })
+		if (note.author) {
+			caption.createEl('span', { text: note.author, cls: 'image-gallery-author' })
+		}
+
+		// Click opens the metadata note, modifier-click opens it in a new tab
+		item.addEventListener('click', (evt) => {
+			this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(note.file).catch(error => {
+				console.error(error)
+			})
+		})
+
+		// Hover preview through the core page preview plugin
+		item.addEventListener('mouseover', (evt) => {
+			this.app.workspace.trigger('hover-link', {
+				event: evt,
+				source: VIEW_TYPE_IMAGE_GALLERY,
+				hoverParent: this,
+				targetEl: item,
+				linktext: note.file.path,
+				sourcePath: note.file.path
+			})
+		})
+
+		return item
+	}
+
+	private getVisibleNotes(): ImageNote[] {
+		const active = Array.from(this.activeTags)
+		const visible = this.notes.filter(note => active.every(tag => note.tags.some(t => isTagOrDescendant(t, tag))))
+
+		// Newest first, then by name
+		return visible.sort((a, b) => {
+			if (a.created !== b.created) return b.created.localeCompare(a.created)
+			return a.file.basename.localeCompare(b.file.basename)
+		})
+	}
+}
@@ -0,0 +1,382 @@
+import { App, Notice, TFile } from 'obsidian'
+import ImageTagPlugin from './main'
+import { collectImageNotes } from './library'
+import { FrontmatterKeys } from './settings'
+
+// ==================== IMAGE METADATA ====================
+// Dimensions for every supported format and EXIF/XMP fields for JPEG and WebP,
+// parsed locally from the file's bytes. Anything that can't be read is left undefined.
+
+export interface ImageMetadata {
+	width?: number
+	height?: number
+	// ISO date-time the photo was taken
+	captured?: string
+	camera?: string
+	artist?: string
+	copyright?: string
+	keywords: string[]
+}
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0'
+
+export async function readImageMetadata(app: App, file: TFile): Promise<ImageMetadata> {
+	const metadata: ImageMetadata = { keywords: [] }
+
+	try {
+		const view = new DataView(await app.vault.readBinary(file))
+
+		switch (file.extension.toLowerCase()) {
+			case 'png':
+				// IHDR is always the first chunk
+				metadata.width = view.getUint32(16)
+				metadata.height = view.getUint32(20)
+				break
+			case 'jpg':
+			case 'jpeg':
+				parseJpeg(view, metadata)
+				break
+			case 'gif':
+				metadata.width = view.getUint16(6, true)
+				metadata.height = view.getUint16(8, true)
+				break
+			case 'webp':
+				parseWebp(view, metadata)
+				break
+			case 'bmp':
+				metadata.width = view.getInt32(18, true)
+				metadata.height = Math.abs(view.getInt32(22, true))
+				break
+			case 'svg':
+				parseSvg(decodeText(view, 0, view.byteLength), metadata)
+				break
+		}
+	} catch (error) {
+		// Truncated or unusual files just yield less metadata
+		console.warn(`ImageTag: Could not read metadata of ${file.path}:`, error)
+	}
+
+	metadata.keywords = [...new Set(metadata.keywords.map(keyword => keyword.trim()).filter(Boolean))]
+	return metadata
+}
+
+// ==================== JPEG ====================
+function parseJpeg(view: DataView, metadata: ImageMetadata) {
+	let orientation = 1
+	let offset = 2
+
+	while (offset + 4 <= view.byteLength) {
+		if (view.getUint8(offset) !== 0xFF) break
+		const marker = view.getUint8(offset + 1)
+
+		// Markers without a length field
+		if (marker === 0xD8 || marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+			offset += 2
+			continue
+		}
+		// Image data follows start of scan; everything we need comes before it
+		if (marker === 0xDA || marker === 0xD9) break
+
+		const length = view.getUint16(offset + 2)
+		const start = offset + 4
+
+		if (marker === 0xE1) {
+			if (decodeText(view, start, 6) === 'Exif\0\0') {
+				orientation = parseTiff(view, start + 6, metadata)
+			} else if (decodeText(view, start, XMP_HEADER.length) === XMP_HEADER) {
+				parseXmp(decodeText(view, start + XMP_HEADER.length, length - 2 - XMP_HEADER.length), metadata)
+			}
+		} else if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+			// Start of frame carries the encoded size
+			metadata.height = view.getUint16(start + 1)
+			metadata.width = view.getUint16(start + 3)
+		}
+
+		offset += 2 + length
+	}
+
+	// Orientations 5-8 are rotated by 90°, so the displayed size is swapped
+	if (orientation >= 5 && metadata.width !== undefined && metadata.height !== undefined) {
+		[metadata.width, metadata.height] = [metadata.height, metadata.width]
+	}
+}
+
+// ==================== WEBP ====================
+function parseWebp(view: DataView, metadata: ImageMetadata) {
+	if (decodeText(view, 0, 4) !== 'RIFF' || decodeText(view, 8, 4) !== 'WEBP') return
+
+	let offset = 12
+	while (offset + 8 <= view.byteLength) {
+		const type = decodeText(view, offset, 4)
+		const size = view.getUint32(offset + 4, true)
+		const data = offset + 8
+
+		if (type === 'VP8X') {
+			// Extended format: canvas size as 24-bit values minus one
+			metadata.width = 1 + readUint24(view, data + 4)
+			metadata.height = 1 + readUint24(view, data + 7)
+		} else if (type === 'VP8 ' && metadata.width === undefined) {
+			metadata.width = view.getUint16(data + 6, true) & 0x3FFF
+			metadata.height = view.getUint16(data + 8, true) & 0x3FFF
+		} else if (type === 'VP8L' && metadata.width === undefined) {
+			const bits = view.getUint32(data + 1, true)
+			metadata.width = (bits & 0x3FFF) + 1
+			metadata.height = ((bits >> 14) & 0x3FFF) + 1
+		} else if (type === 'EXIF') {
+			// Some encoders keep the JPEG-style prefix
+			parseTiff(view, decodeText(view, data, 6) === 'Exif\0\0' ? data + 6 : data, metadata)
+		} else if (type === 'XMP ') {
+			parseXmp(decodeText(view, data, size), metadata)
+		}
+
+		// Chunks are padded to an even size
+		offset = data + size + (size % 2)
+	}
+}
+
+// ==================== SVG ====================
+function parseSvg(text: string, metadata: ImageMetadata) {
+	const svgTag = text.match(/<svg\b[^>]*>/i)?.[0]
+	if (!svgTag) return
+
+	const attr = (name: string) => svgTag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1]
+	// Percentages and other relative units don't give a pixel size
+	const toPixels = (value?: string) => value && /^\s*[\d.]+\s*(px)?\s*$/.test(value) ? parseFloat(value) : undefined
+
+	metadata.width = toPixels(attr('width'))
+	metadata.height = toPixels(attr('height'))
+
+	if (metadata.width === undefined || metadata.height === undefined) {
+		const viewBox = attr('viewBox')?.trim().split(/[\s,]+/).map(parseFloat)
+		if (viewBox?.length === 4) {
+			metadata.width = viewBox[2]
+			metadata.height = viewBox[3]
+		}
+	}
+}
+
+// ==================== EXIF (TIFF) ====================
+const TAG_MAKE = 0x010F
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_ARTIST = 0x013B
+const TAG_COPYRIGHT = 0x8298
+const TAG_EXIF_IFD = 0x8769
+const TAG_XP_AUTHOR = 0x9C9D
+const TAG_XP_KEYWORDS = 0x9C9E
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+interface IfdEntry {
+	type: number
+	count: number
+	// Absolute offset of the value bytes
+	valueOffset: number
+}
+
+// Returns the EXIF orientation (1 when absent)
+function parseTiff(view: DataView, tiffStart: number, metadata: ImageMetadata): number {
+	const byteOrder = view.getUint16(tiffStart)
+	if (byteOrder !== 0x4949 && byteOrder !== 0x4D4D) return 1
+	const little = byteOrder === 0x4949
+	if (view.getUint16(tiffStart + 2, little) !== 42) return 1
+
+	const readIfd = (offset: number): Map<number, IfdEntry> => {
+		const entries = new Map<number, IfdEntry>()
+		const start = tiffStart + offset
+		const count = view.getUint16(start, little)
+
+		for (let i = 0; i < count; i++) {
+			const entry = start + 2 + i * 12
+			const type = view.getUint16(entry + 2, little)
+			const valueCount = view.getUint32(entry + 4, little)
+			const size = (TYPE_SIZES[type] ?? 1) * valueCount
+			// Values of up to four bytes are stored inline
+			const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little)
+			entries.set(view.getUint16(entry, little), { type, count: valueCount, valueOffset })
+		}
+		return entries
+	}
+
+	const ascii = (entry?: IfdEntry) => entry ? cleanString(decodeText(view, entry.valueOffset, entry.count)) : undefined
+	// Windows XP* fields are UTF-16LE regardless of the file's byte order
+	const ucs2 = (entry?: IfdEntry) => entry ? cleanString(decodeText(view, entry.valueOffset, entry.count, 'utf-16le')) : undefined
+
+	const ifd0 = readIfd(view.getUint32(tiffStart + 4, little))
+	const exifPointer = ifd0.get(TAG_EXIF_IFD)
+	const exif = exifPointer ? readIfd(view.getUint32(exifPointer.valueOffset, little)) : new Map<number, IfdEntry>()
+
+	const make = ascii(ifd0.get(TAG_MAKE))
+	const model = ascii(ifd0.get(TAG_MODEL))
+	// Models often repeat the make, e.g. "Canon" + "Canon EOS R6"
+	const camera = make && model && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model ?? make
+	if (camera) metadata.camera = camera
+
+	const captured = toIsoDate(ascii(exif.get(TAG_DATE_TIME_ORIGINAL)) ?? ascii(ifd0.get(TAG_DATE_TIME)))
+	if (captured) metadata.captured = captured
+
+	const artist = ascii(ifd0.get(TAG_ARTIST)) ?? ucs2(ifd0.get(TAG_XP_AUTHOR))
+	if (artist) metadata.artist = artist
+
+	const copyright = ascii(ifd0.get(TAG_COPYRIGHT))
+	if (copyright) metadata.copyright = copyright
+
+	const keywords = ucs2(ifd0.get(TAG_XP_KEYWORDS))
+	if (keywords) metadata.keywords.push(...keywords.split(/[;,]/))
+
+	const orientation = ifd0.get(TAG_ORIENTATION)
+	return orientation ? view.getUint16(orientation.valueOffset, little) : 1
+}
+
+// `2024:03:01 14:22:05` -> `2024-03-01T14:22:05`
+function toIsoDate(value?: string): string | undefined {
+	const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}:\d{2}:\d{2})/)
+	if (!match || match[1] === '0000') return undefined
+	return `${match[1]}-${match[2]}-${match[3]}T${match[4]}`
+}
+
+// ==================== XMP ====================
+// Only fills what EXIF didn't provide
+function parseXmp(xml: string, metadata: ImageMetadata) {
+	metadata.keywords.push(...readXmpList(xml, 'dc:subject'))
+
+	metadata.artist ??= readXmpList(xml, 'dc:creator')[0]
+	metadata.copyright ??= readXmpList(xml, 'dc:rights')[0]
+
+	if (!metadata.captured) {
+		const date = ['exif:DateTimeOriginal', 'photoshop:DateCreated', 'xmp:CreateDate']
+			.map(name => readXmpValue(xml, name))
+			.find(Boolean)
+		// XMP dates are ISO already; drop the time zone to match the EXIF form
+		const match = date?.match(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?/)
+		if (match) metadata.captured = match[0]
+	}
+}
+
+// Items of an rdf:Bag / rdf:Seq / rdf:Alt property
+function readXmpList(xml: string, property: string): string[] {
+	const block = xml.match(new RegExp(`<${property}\\b[^>]*>([\\s\\S]*?)</${property}>`))?.[1]
+	if (!block) return []
+
+	const items: string[] = []
+	const itemPattern = /<rdf:li\b[^>]*>([\s\S]*?)<\/rdf:li>/g
+	let match: RegExpExecArray | null
+	while ((match = itemPattern.exec(block)) !== null) {
+		const item = decodeXmlEntities(match[1] ?? '').trim()
+		if (item) items.push(item)
+	}
+	return items
+}
+
+// A simple property, written either as an attribute or as an element
+function readXmpValue(xml: string, property: string): string | undefined {
+	const match = xml.match(new RegExp(`${property}\\s*=\\s*"([^"]*)"`)) ?? xml.match(new RegExp(`<${property}>([^<]*)</${property}>`))
+	return match?.[1] ? decodeXmlEntities(match[1]).trim() : undefined
+}
+
+function decodeXmlEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&')
+}
+
+// ==================== BYTE HELPERS ====================
+function decodeText(view: DataView, offset: number, length: number, encoding = 'utf-8'): string {
+	const end = Math.min(offset + length, view.byteLength)
+	if (offset >= end) return ''
+	return new TextDecoder(encoding).decode(new Uint8Array(view.buffer, view.byteOffset + offset, end - offset))
+}
+
+function readUint24(view: DataView, offset: number): number {
+	return view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16)
+}
+
+function cleanString(text: string): string | undefined {
+	const cleaned = text.replace(/\0/g, '').trim()
+	return cleaned || undefined
+}
+
+// ==================== NOTE FRONTMATTER ====================
+// Frontmatter fields that differ from what the note already has
+function getMetadataUpdates(frontmatter: Record<string, unknown>, metadata: ImageMetadata, keys: FrontmatterKeys): Record<string, unknown> {
+	const updates: Record<string, unknown> = {}
+
+	const fields: Record<string, unknown> = {
+		width: metadata.width,
+		height: metadata.height,
+		captured: metadata.captured,
+		camera: metadata.camera,
+		copyright: metadata.copyright,
+		keywords: metadata.keywords.length > 0 ? metadata.keywords : undefined
+	}
+	// A configured field (say, tags stored under `keywords`) belongs to the user and is never overwritten
+	const reserved = new Set([keys.image, keys.author, keys.tags, keys.created, keys.boards].map(key => key.trim().toLowerCase()))
+	Object.entries(fields).forEach(([key, value]) => {
+		if (reserved.has(key)) return
+		if (value !== undefined && JSON.stringify(frontmatter[key]) !== JSON.stringify(value)) {
+			updates[key] = value
+		}
+	})
+
+	// The embedded artist never overrides an author entered by hand
+	const author: unknown = frontmatter[keys.author]
+	if (metadata.artist && (typeof author !== 'string' || !author.trim())) {
+		updates[keys.author] = metadata.artist
+	}
+
+	return updates
+}
+
+// Write the image's metadata into its note, returning false when nothing changed
+export async function applyMetadataToNote(app: App, note: TFile, metadata: ImageMetadata, keys: FrontmatterKeys): Promise<boolean> {
+	// Skip the write when the cache already shows nothing to change
+	const cached = app.metadataCache.getFileCache(note)?.frontmatter
+	if (cached && Object.keys(getMetadataUpdates(cached, metadata, keys)).length === 0) return false
+
+	let changed = false
+	await app.fileManager.processFrontMatter(note, (frontmatter: Record<string, unknown>) => {
+		const updates = getMetadataUpdates(frontmatter, metadata, keys)
+		changed = Object.keys(updates).length > 0
+		Object.assign(frontmatter, updates)
+	})
+	return changed
+}
+
+// Backfill metadata for every existing image note
+export async function backfillImageMetadata(plugin: ImageTagPlugin) {
+	const { app } = plugin
+	const keys = plugin.settings.frontmatterKeys
+	const notes = collectImageNotes(app, '', keys).filter(note => note.imageFile)
+
+	if (notes.length === 0) {
+		new Notice('No image notes found')
+		return
+	}
+
+	const progress = new Notice(`Reading image metadata: 0/${notes.length}`, 0)
+	let updated = 0
+	let failed = 0
+
+	for (let i = 0; i < notes.length; i++) {
+		const note = notes[i]
+		if (!note?.imageFile) continue
+
+		try {
+			const metadata = await readImageMetadata(app, note.imageFile)
+			if (await applyMetadataToNote(app, note.file, metadata, keys)) updated++
+		} catch (error) {
+			console.error(`Error updating metadata of ${note.file.path}:`, error)
+			failed++
+		}
+		progress.setMessage(`Reading image metadata: ${i + 1}/${notes.length}`)
+	}
+
+	progress.hide()
+	new Notice(`Image metadata: ${updated} note${updated === 1 ? '' : 's'} updated` + (failed > 0 ? `, ${failed} failed` : ''))
+}
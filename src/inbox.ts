@@ -0,0 +1,267 @@
+import { ItemView, Notice, Scope, Setting as PluginSettings, TFile, WorkspaceLeaf } from 'obsidian'
+import ImageTagPlugin from './main'
+import { validateCategories } from './categories'
+import { getUntaggedImages } from './library'
+import { renderTagPicker } from './picker'
+
+export const VIEW_TYPE_IMAGE_INBOX = 'image-inbox-view'
+
+const MAX_FAVORITES = 9
+
+// ==================== UNTAGGED IMAGE INBOX ====================
+// Triage loop over images without a metadata note:
+// number keys toggle favorite tags, Enter saves and advances, S skips.
+export class ImageInboxView extends ItemView {
+	plugin: ImageTagPlugin
+	queue: TFile[] = []
+	index = 0
+	selectedTags: Set<string> = new Set()
+	author: string = ''
+	saving = false
+
+	constructor(leaf: WorkspaceLeaf, plugin: ImageTagPlugin) {
+		super(leaf)
+		this.plugin = plugin
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_IMAGE_INBOX
+	}
+
+	getDisplayText(): string {
+		return 'Image inbox'
+	}
+
+	getIcon(): string {
+		return 'inbox'
+	}
+
+	onOpen(): Promise<void> {
+		this.containerEl.addClass('image-inbox-view')
+
+		this.scope = new Scope(this.app.scope)
+		for (let i = 1; i <= MAX_FAVORITES; i++) {
+			this.scope.register([], String(i), (evt) => this.handleKey(evt, () => this.toggleFavorite(i - 1)))
+		}
+		this.scope.register([], 'Enter', (evt) => this.handleKey(evt, () => this.saveCurrent()))
+		this.scope.register([], 's', (evt) => this.handleKey(evt, () => this.skipCurrent()))
+
+		this.reload()
+		return Promise.resolve()
+	}
+
+	onClose(): Promise<void> {
+		this.containerEl.empty()
+		return Promise.resolve()
+	}
+
+	reload() {
+		this.queue = getUntaggedImages(this.app, this.plugin.settings.frontmatterKeys)
+		this.index = 0
+		this.resetSelection()
+		this.render()
+	}
+
+	get current(): TFile | undefined {
+		return this.queue[this.index]
+	}
+
+	// Favorites from settings, falling back to the most used tags
+	getFavoriteTags(): string[] {
+		const favorites = this.plugin.settings.favoriteTags.filter(tag => tag.trim())
+		if (favorites.length > 0) return favorites.slice(0, MAX_FAVORITES)
+
+		return [...this.plugin.settings.tags]
+			.sort((a, b) => this.plugin.tagIndex.getCount(b) - this.plugin.tagIndex.getCount(a))
+			.slice(0, MAX_FAVORITES)
+	}
+
+	render() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		const header = contentEl.createDiv('image-inbox-header')
+		header.createEl('h3', { text: 'Image inbox' })
+		header.createEl('p', {
+			text: `${this.queue.length} untagged image${this.queue.length === 1 ? '' : 's'}`,
+			cls: 'image-inbox-stats'
+		})
+
+		if (this.queue.length === 0) {
+			contentEl.createEl('p', { text: 'Every image in the vault has a note.', cls: 'image-inbox-empty' })
+			new PluginSettings(contentEl)
+				.addButton(btn => btn
+					.setButtonText('Rescan')
+					.onClick(() => this.reload()))
+			return
+		}
+
+		// Past the last image: tagged images have left the queue, so everything before this point was skipped
+		const image = this.current
+		if (!image) {
+			const skipped = this.queue.length
+			contentEl.createEl('p', {
+				text: `End of the queue. ${skipped} skipped image${skipped === 1 ? '' : 's'} still ${skipped === 1 ? 'has' : 'have'} no note.`,
+				cls: 'image-inbox-empty'
+			})
+			new PluginSettings(contentEl)
+				.addButton(btn => btn
+					.setButtonText('Back to start')
+					.setCta()
+					.onClick(() => {
+						this.index = 0
+						this.render()
+					}))
+				.addButton(btn => btn
+					.setButtonText('Rescan')
+					.onClick(() => this.reload()))
+			return
+		}
+
+		const body = contentEl.createDiv('image-inbox-body')
+
+		// Large preview of the current image
+		const preview = body.createDiv('image-inbox-preview')
+		preview.createEl('img', { attr: { src: this.app.vault.getResourcePath(image), alt: image.name } })
+		preview.createEl('p', {
+			text: `${this.index + 1} / ${this.queue.length} · ${image.path}`,
+			cls: 'image-inbox-path'
+		})
+
+		const panel = body.createDiv('image-inbox-panel')
+		this.renderTagArea(panel.createDiv('image-inbox-tags'))
+
+		new PluginSettings(panel)
+			.setName('Author (optional)')
+			.addText(text => text
+				.setPlaceholder('E.g. ,author name, studio name')
+				.setValue(this.author)
+				.onChange(value => this.author = value))
+
+		new PluginSettings(panel)
+			.addButton(btn => btn
+				.setButtonText('Skip')
+				.setTooltip('Shortcut: s')
+				.onClick(() => this.skipCurrent()))
+			.addButton(btn => btn
+				.setButtonText('Save and next')
+				.setTooltip('Shortcut: enter')
+				.setCta()
+				.onClick(() => this.saveCurrent()))
+
+		this.renderQueueStrip(contentEl)
+	}
+
+	renderTagArea(container: HTMLElement) {
+		container.empty()
+
+		const favorites = this.getFavoriteTags()
+		if (favorites.length > 0) {
+			const favoritesRow = container.createDiv('image-inbox-favorites')
+			favorites.forEach((tag, i) => {
+				const btn = favoritesRow.createEl('button', { cls: 'ImageTag-tag-btn' })
+				btn.createSpan({ text: String(i + 1), cls: 'image-inbox-key' })
+				btn.appendText(tag)
+				if (this.selectedTags.has(tag)) btn.addClass('ImageTag-tag-selected')
+				btn.addEventListener('click', () => {
+					this.toggleFavorite(i)
+				})
+			})
+		}
+
+		renderTagPicker(container, this.plugin.allTags, this.selectedTags, () => this.renderTagArea(container), this.plugin.settings.tagCategories)
+	}
+
+	// Upcoming images; clicking one jumps to it
+	renderQueueStrip(container: HTMLElement) {
+		const strip = container.createDiv('image-inbox-strip')
+
+		this.queue.slice(this.index, this.index + 30).forEach((file, offset) => {
+			const thumb = strip.createEl('img', {
+				cls: 'image-inbox-thumb',
+				attr: { src: this.app.vault.getResourcePath(file), title: file.path, loading: 'lazy' }
+			})
+			if (offset === 0) thumb.addClass('is-active')
+
+			thumb.addEventListener('click', () => {
+				this.index += offset
+				this.resetSelection()
+				this.render()
+			})
+		})
+	}
+
+	toggleFavorite(position: number) {
+		const tag = this.getFavoriteTags()[position]
+		if (!tag) return
+
+		if (this.selectedTags.has(tag)) {
+			this.selectedTags.delete(tag)
+		} else {
+			this.selectedTags.add(tag)
+		}
+
+		const tagArea = this.contentEl.querySelector<HTMLElement>('.image-inbox-tags')
+		if (tagArea) this.renderTagArea(tagArea)
+	}
+
+	async saveCurrent() {
+		const image = this.current
+		if (!image || this.saving) return
+
+		if (this.selectedTags.size === 0) {
+			new Notice('Please select at least one tag, or skip this image')
+			return
+		}
+
+		const problems = validateCategories(Array.from(this.selectedTags), this.plugin.settings.tagCategories)
+		if (problems.length > 0) {
+			new Notice(problems.join('\n'))
+			return
+		}
+
+		this.saving = true
+		try {
+			await this.plugin.createImageNote(image, {
+				tags: Array.from(this.selectedTags),
+				author: this.author,
+				notes: ''
+			})
+			new Notice(`Tagged: ${image.name}`)
+
+			// Tagged images leave the queue; the author is kept for the next image of the same batch
+			this.queue.splice(this.index, 1)
+			this.resetSelection()
+			this.render()
+		} catch (error) {
+			console.error('Error creating note:', error)
+			new Notice('Failed to create note')
+		} finally {
+			this.saving = false
+		}
+	}
+
+	skipCurrent() {
+		if (!this.current) return
+
+		this.index = Math.min(this.index + 1, this.queue.length)
+		this.resetSelection()
+		this.render()
+	}
+
+	private resetSelection() {
+		this.selectedTags = new Set()
+	}
+
+	// Shortcuts are ignored while typing in a field
+	private handleKey(evt: KeyboardEvent, action: () => void | Promise<void>): boolean {
+		const target = evt.target
+		if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return true
+
+		evt.preventDefault()
+		Promise.resolve(action()).catch(error => {
+			console.error(error)
+		})
+		return false
+	}
+}
@@ -0,0 +1,224 @@
+import { App, CachedMetadata, TFile, getAllTags, getLinkpath, normalizePath } from 'obsidian'
+import { FrontmatterKeys, ImageTagSettings } from './settings'
+
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.svg']
+
+// Check if file is an image the plugin can tag
+export function isImageFile(file: TFile): boolean {
+	return IMAGE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))
+}
+
+// A metadata note created by NoteAddingModal, paired with the image it describes
+export interface ImageNote {
+	file: TFile
+	image: string
+	imageFile: TFile | null
+	tags: string[]
+	author: string
+	created: string
+	// Dominant colors, most dominant first
+	palette: string[]
+	boards: string[]
+}
+
+// Frontmatter field holding an image's color palette
+export const PALETTE_KEY = 'palette'
+
+// Hex colors from a frontmatter `palette` value
+export function readPalette(value: unknown): string[] {
+	if (!Array.isArray(value)) return []
+	return (value as unknown[]).filter((color): color is string => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color))
+}
+
+// Board names from a frontmatter value. Names may contain commas, so a single string is one board.
+export function readBoards(value: unknown): string[] {
+	const raw = Array.isArray(value) ? value as unknown[] : [value]
+	return [...new Set(raw
+		.filter((board): board is string => typeof board === 'string')
+		.map(board => board.trim())
+		.filter(Boolean))]
+}
+
+// Normalise a frontmatter `tags` value (array, comma string or single value) to bare tag names
+export function normalizeTags(value: unknown): string[] {
+	if (value === undefined || value === null) return []
+
+	let raw: string[] = []
+	if (Array.isArray(value)) {
+		raw = (value as unknown[]).map(t => typeof t === 'string' ? t : String(t as number))
+	} else if (typeof value === 'string') {
+		raw = value.split(',')
+	} else if (typeof value === 'number') {
+		raw = [String(value)]
+	}
+
+	return raw
+		.map(t => t.trim().replace(/^#/, ''))
+		.filter(t => t.length > 0)
+}
+
+// Lowercase tags of a note, without `#`: frontmatter `tags`/`tag` and inline tags from the metadata cache,
+// plus the configured tags field, which the cache doesn't know about when it's renamed (e.g. `keywords`)
+export function getNoteTags(cache: CachedMetadata, tagsKey: string): string[] {
+	const tags = (getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, ''))
+	tags.push(...normalizeTags(cache.frontmatter?.[tagsKey]))
+	return [...new Set(tags.map(tag => tag.toLowerCase()))]
+}
+
+// Read a single note's frontmatter, returning null when it isn't an image note
+export function readImageNote(app: App, file: TFile, keys: FrontmatterKeys): ImageNote | null {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter
+	const image: unknown = frontmatter?.[keys.image]
+	if (typeof image !== 'string' || !image) return null
+
+	const author: unknown = frontmatter?.[keys.author]
+	const created: unknown = frontmatter?.[keys.created]
+
+	return {
+		file,
+		image,
+		imageFile: app.metadataCache.getFirstLinkpathDest(image, file.path),
+		tags: normalizeTags(frontmatter?.[keys.tags]),
+		author: typeof author === 'string' ? author : '',
+		created: typeof created === 'string' ? created : '',
+		palette: readPalette(frontmatter?.[PALETTE_KEY]),
+		boards: readBoards(frontmatter?.[keys.boards]),
+	}
+}
+
+// Collect every image note inside the given folder (whole vault when empty)
+export function collectImageNotes(app: App, folderPath: string, keys: FrontmatterKeys): ImageNote[] {
+	const notes: ImageNote[] = []
+	const prefix = folderPath ? `${folderPath.replace(/\/+$/, '')}/` : ''
+
+	for (const file of app.vault.getMarkdownFiles()) {
+		if (prefix && !file.path.startsWith(prefix)) continue
+
+		const note = readImageNote(app, file, keys)
+		if (note) notes.push(note)
+	}
+
+	return notes
+}
+
+// Folders of the image library: the default folder plus the fixed start of every note route folder,
+// since routes create notes outside the default folder. An empty entry stands for the whole vault,
+// e.g. for a route folder that starts with a placeholder.
+export function getLibraryFolders(settings: ImageTagSettings): string[] {
+	const routeFolders = settings.noteRoutes.map(route => {
+		const fixed: string[] = []
+		for (const segment of route.folder.split('/')) {
+			if (segment.includes('{{')) break
+			if (segment.trim()) fixed.push(segment.trim())
+		}
+		return fixed.join('/')
+	})
+
+	return [...new Set([settings.defaultFolder.trim(), ...routeFolders].map(folder => folder ? normalizePath(folder) : ''))]
+}
+
+export function isInLibrary(settings: ImageTagSettings, path: string): boolean {
+	return getLibraryFolders(settings).some(folder => !folder || folder === '/' || path.startsWith(`${folder}/`))
+}
+
+// Every image note in the library, wherever a route put it
+export function collectLibraryNotes(app: App, settings: ImageTagSettings): ImageNote[] {
+	const folders = getLibraryFolders(settings)
+	const notes = collectImageNotes(app, '', settings.frontmatterKeys)
+	if (folders.some(folder => !folder || folder === '/')) return notes
+	return notes.filter(note => folders.some(folder => note.file.path.startsWith(`${folder}/`)))
+}
+
+// Find the note already describing an image, matching on the file its `image:` field resolves to
+export function findImageNote(app: App, image: TFile, keys: FrontmatterKeys): TFile | null {
+	const match = collectImageNotes(app, '', keys).find(note => note.imageFile?.path === image.path)
+	return match ? match.file : null
+}
+
+// Collision-free path for a new note about `image`: `<name>.md`, then `<name> (<folder>).md`, then numbered.
+// The name defaults to the image's own.
+export function getImageNotePath(app: App, image: TFile, folderPath: string, noteName = image.basename): string {
+	const sanitize = (name: string) => name.replace(/[<>:"/\\|?*]/g, '_')
+	const inFolder = (fileName: string) => normalizePath(folderPath ? `${folderPath}/${fileName}` : fileName)
+
+	const baseName = sanitize(noteName)
+	const parentName = image.parent && !image.parent.isRoot() ? sanitize(image.parent.name) : ''
+
+	const candidates = [`${baseName}.md`]
+	if (parentName) candidates.push(`${baseName} (${parentName}).md`)
+
+	for (const candidate of candidates) {
+		const path = inFolder(candidate)
+		if (!app.vault.getAbstractFileByPath(path)) return path
+	}
+
+	let counter = 2
+	while (app.vault.getAbstractFileByPath(inFolder(`${baseName} ${counter}.md`))) {
+		counter++
+	}
+	return inFolder(`${baseName} ${counter}.md`)
+}
+
+// Resolve an embed or link (`sketch.png`, `art/sketch.png|600`) to an image file
+export function resolveImageLink(app: App, link: string, sourcePath: string): TFile | null {
+	const linkpath = getLinkpath(link.split('|')[0] ?? link)
+	const file = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+	return file && isImageFile(file) ? file : null
+}
+
+// Text under the `## Notes` heading, up to the next heading of the same or higher level
+export function extractNotesSection(content: string): string {
+	const lines = content.split('\n')
+	const start = lines.findIndex(line => /^## Notes\s*$/.test(line))
+	if (start === -1) return ''
+
+	const rest = lines.slice(start + 1)
+	const end = rest.findIndex(line => /^#{1,2} /.test(line))
+	return (end === -1 ? rest : rest.slice(0, end)).join('\n').trim()
+}
+
+// Replace (or add, or drop when empty) the `## Notes` section of a note
+export function replaceNotesSection(content: string, notes: string): string {
+	const lines = content.split('\n')
+	const start = lines.findIndex(line => /^## Notes\s*$/.test(line))
+	const section = notes.trim() ? ['## Notes', '', notes.trim(), ''] : []
+
+	if (start === -1) {
+		if (section.length === 0) return content
+		return `${content.replace(/\n*$/, '')}\n\n${section.join('\n')}`
+	}
+
+	const rest = lines.slice(start + 1)
+	const end = rest.findIndex(line => /^#{1,2} /.test(line))
+	const after = end === -1 ? [] : rest.slice(end)
+
+	return [...lines.slice(0, start), ...section, ...after].join('\n').replace(/\n*$/, '\n')
+}
+
+// Images in the vault that no note references through its `image:` field
+export function getUntaggedImages(app: App, keys: FrontmatterKeys): TFile[] {
+	const referenced = new Set<string>()
+	collectImageNotes(app, '', keys).forEach(note => {
+		if (note.imageFile) referenced.add(note.imageFile.path)
+	})
+
+	return app.vault.getFiles()
+		.filter(file => isImageFile(file) && !referenced.has(file.path))
+		.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+}
+
+// Decode an image file, resolving to null when it can't be displayed
+export function loadImage(app: App, image: TFile): Promise<HTMLImageElement | null> {
+	return new Promise((resolve) => {
+		const img = new Image()
+		img.onload = () => resolve(img)
+		img.onerror = () => resolve(null)
+		img.src = app.vault.getResourcePath(image)
+	})
+}
+
+// Decode the image to read its pixel size
+export async function readImageDimensions(app: App, image: TFile): Promise<{ width: number, height: number } | null> {
+	const img = await loadImage(app, image)
+	return img ? { width: img.naturalWidth, height: img.naturalHeight } : null
+}
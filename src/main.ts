@@ -1,18 +1,115 @@
-import { App, Editor, Modal, Notice, Plugin, Setting as PluginSettings, PluginSettingTab, ItemView, WorkspaceLeaf, TFile } from 'obsidian'
-import { ImageTagSettings, DEFAULT_SETTINGS } from 'settings'
+import { App, Editor, Modal, Notice, Plugin, debounce, Setting as PluginSettings, PluginSettingTab, TextComponent, ItemView, WorkspaceLeaf, TFile, TFolder, TAbstractFile, Vault } from 'obsidian'
+import { AutoTagRule, ImageTagSettings, DEFAULT_SETTINGS, FrontmatterKeys, NoteRoute, OrphanAction, TagCategory, TagScope } from 'settings'
+import { ImageGalleryView, VIEW_TYPE_IMAGE_GALLERY } from 'gallery'
+import { ImageQueryModal } from 'query'
+import { BatchTagModal } from 'batch'
+import { TagSearch, renderTagPicker } from 'picker'
+import { TagIndex } from 'tag-index'
+import { ImageInboxView, VIEW_TYPE_IMAGE_INBOX } from 'inbox'
+import { LibraryAuditModal, syncDeletedImage, syncRenamedImage } from 'sync'
+import { AutoTagRuleModal, autoTagNewImage, createEmptyRule, describeRule, evaluateRules } from 'rules'
+import { ImageDuplicatesView, ImageHashCache, VIEW_TYPE_IMAGE_DUPLICATES, backfillTaggedHashes, findTaggedDuplicate } from 'duplicates'
+import { ColorSearchModal, backfillPalettes, extractPalette, getTagPalette, renderSwatches, writePalette } from 'palette'
+import { applyMetadataToNote, backfillImageMetadata, readImageMetadata } from 'image-metadata'
+import { getDefaultTemplate, loadNoteTemplate, renderTemplate, templateNeedsDimensions } from 'template'
+import { TagTreeNode, buildTagTree, cleanTag, isTagOrDescendant, replaceTagPrefix, resolveTagAlias } from 'tags'
+import { reviewVaultTags } from 'tag-scan'
+import { TagStats, computeTagStats, suggestTags } from 'suggestions'
+import { TAG_SCOPE_LABELS, describeTagScope, isInTagScope } from 'scope'
+import { DEFAULT_NOTE_NAME, NoteRouteModal, createEmptyRoute, describeRoute, ensureFolder, getNotePath } from 'note-paths'
+import { BoardListView, BoardPickerModal, createBoard, findBoardTargets, updateNoteBoards } from 'boards'
+import { CONSTRAINT_LABELS, TagCategoryModal, applyCategoryStyle, createEmptyCategory, getTagCategory, groupByCategory, renderCategoryHeader, renderCategoryIcon, validateCategories } from 'categories'
+import { TagChange, TagChangePreviewModal, TagEditJournal, TagRewriteResult, applyTagChanges, countChanged, getAliasesInUse, getMergeOrder, planAliasNormalization, planTagMerge, planTagRemoval, planTagRename, undoLastTagEdit } from 'tag-edits'
+import { ImageNote, PALETTE_KEY, extractNotesSection, findImageNote, isImageFile, normalizeTags, readBoards, readImageNote, readImageDimensions, readPalette, replaceNotesSection, resolveImageLink } from 'library'
 
 const VIEW_TYPE_TAG_MANAGER = 'tag-manager-view'
 
+export interface ImageNoteData {
+	tags: string[]
+	author: string
+	notes: string
+	boards?: string[]
+}
+
 // ==================== MAIN PLUGIN CLASS =======================
 export default class ImageTagPlugin extends Plugin {
 	settings: ImageTagSettings
 	allTags: string[] = []
 	tab: TagManagerView
+	tagIndex: TagIndex
+	hashCache: ImageHashCache
+	tagJournal: TagEditJournal
 
 	async onload() {
 		await this.loadSettings()
 		this.allTags = this.settings.tags
 
+		// Live tag index, kept current by metadata and vault events
+		this.tagIndex = new TagIndex(
+			this.app,
+			(file, cache) => isInTagScope(this.settings, file, cache),
+			() => this.settings.frontmatterKeys.tags
+		)
+		this.app.workspace.onLayoutReady(() => this.tagIndex.build())
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file, _data, cache) => this.tagIndex.updateFile(file, cache))
+		)
+		this.registerEvent(
+			this.app.metadataCache.on('deleted', (file) => this.tagIndex.removeFile(file.path))
+		)
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) this.tagIndex.renameFile(file, oldPath)
+			})
+		)
+
+		this.tagJournal = new TagEditJournal(this)
+
+		// Perceptual hashes follow their image
+		this.hashCache = new ImageHashCache(this)
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => this.hashCache.renameFile(oldPath, file.path))
+		)
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => this.hashCache.removeFile(file.path))
+		)
+		// Images tagged before duplicate detection get a hash in the background
+		this.app.workspace.onLayoutReady(() => {
+			backfillTaggedHashes(this).catch(error => {
+				console.error('Failed to hash tagged images:', error)
+			})
+		})
+
+		// Keep image notes pointing at their image
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (!(file instanceof TFile)) return
+				syncRenamedImage(this, file, oldPath).catch(error => {
+					console.error('Failed to update notes for renamed image:', error)
+				})
+			})
+		)
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (!(file instanceof TFile)) return
+				syncDeletedImage(this, file).catch(error => {
+					console.error('Failed to handle notes for deleted image:', error)
+				})
+			})
+		)
+
+		// Auto-tag images added to watched folders; startup indexing also fires `create`, so wait for the layout
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					if (!(file instanceof TFile)) return
+					autoTagNewImage(this, file).catch(error => {
+						console.error('Failed to auto-tag new image:', error)
+					})
+				})
+			)
+		})
+
 		const isFirstInstall = this.settings.tags.length === DEFAULT_SETTINGS.tags.length &&
 			JSON.stringify(this.settings.tags) === JSON.stringify(DEFAULT_SETTINGS.tags)
 		this.app.workspace.onLayoutReady(async () => {
@@ -36,22 +133,72 @@ export default class ImageTagPlugin extends Plugin {
 								this.tagImageFile(file)
 							})
 					})
+					menu.addItem((item) => {
+						item
+							.setTitle('Add to board')
+							.setIcon('layout-dashboard')
+							.onClick(() => this.openBoardPicker([file]))
+					})
+				}
+
+				// Folder: tag every image inside it
+				if (file instanceof TFolder) {
+					const images = this.getImageFiles([file])
+					if (images.length === 0) return
+					menu.addItem((item) => {
+						item
+							.setTitle(`Tag ${images.length} images in folder`)
+							.setIcon('tags')
+							.onClick(() => {
+								new BatchTagModal(this.app, this, images).open()
+							})
+					})
 				}
 			})
 		)
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu, files) => {
+				// Multi-selection: tag all selected images (and images in selected folders) at once
+				const images = this.getImageFiles(files)
+				if (images.length === 0) return
+				menu.addItem((item) => {
+					item
+						.setTitle(`Tag ${images.length} image${images.length === 1 ? '' : 's'}`)
+						.setIcon('tags')
+						.onClick(() => {
+							new BatchTagModal(this.app, this, images).open()
+						})
+				})
+				menu.addItem((item) => {
+					item
+						.setTitle(`Add ${images.length} image${images.length === 1 ? '' : 's'} to board`)
+						.setIcon('layout-dashboard')
+						.onClick(() => this.openBoardPicker(images))
+				})
+			})
+		)
 		// Command: Tag selected image
 		this.addCommand({
 			id: 'tag-selected-image',
 			name: 'Tag selected image',
-			editorCallback: (editor: Editor) => {
-				const imageName = this.getImageLinkAtCursor(editor)
+			editorCallback: (editor: Editor, ctx) => {
+				const imageLink = this.getImageLinkAtCursor(editor)
 
-				if (!imageName) {
+				if (!imageLink) {
 					new Notice('No image found. Place cursor on ![[image.jpg]]')
 					return
 				}
 
-				new NoteAddingModal(this.app, this, imageName, this.allTags, this.settings.defaultFolder).open()
+				// Resolve the link like Obsidian does, so same-named images in other folders don't collide
+				const image = resolveImageLink(this.app, imageLink, ctx.file?.path ?? '')
+				if (!image) {
+					new Notice(`Image not found in vault: ${imageLink}`)
+					return
+				}
+
+				this.openTagModal(image).catch(error => {
+					console.error(error)
+				})
 			}
 		})
 
@@ -66,12 +213,148 @@ export default class ImageTagPlugin extends Plugin {
 			}
 		})
 
+		// Command: Open image gallery
+		this.addCommand({
+			id: 'open-image-gallery',
+			name: 'Open image gallery',
+			callback: () => {
+				this.activateGalleryView().catch(error => {
+					console.error(error)
+				})
+			}
+		})
+
+		// Command: Open untagged images inbox
+		this.addCommand({
+			id: 'open-image-inbox',
+			name: 'Open untagged images inbox',
+			callback: () => {
+				this.activateInboxView().catch(error => {
+					console.error(error)
+				})
+			}
+		})
+
+		// Command: Rescan vault for existing tags
+		this.addCommand({
+			id: 'rescan-vault-tags',
+			name: 'Rescan vault for existing tags',
+			callback: () => reviewVaultTags(this)
+		})
+
+		// Command: Normalize tag aliases
+		this.addCommand({
+			id: 'normalize-tag-aliases',
+			name: 'Normalize tag aliases in vault',
+			callback: () => {
+				this.runAliasNormalization().catch(error => {
+					console.error('Failed to normalize tag aliases:', error)
+					new Notice('Failed to normalize tag aliases')
+				})
+			}
+		})
+
+		// Command: Undo the last bulk tag edit
+		this.addCommand({
+			id: 'undo-bulk-tag-edit',
+			name: 'Undo last bulk tag edit',
+			callback: () => {
+				undoLastTagEdit(this).catch(error => {
+					console.error('Failed to undo tag edit:', error)
+					new Notice('Failed to undo tag edit')
+				})
+			}
+		})
+
+		// Command: Find duplicate images
+		this.addCommand({
+			id: 'find-duplicate-images',
+			name: 'Find duplicate images',
+			callback: () => {
+				this.activateDuplicatesView().catch(error => {
+					console.error(error)
+				})
+			}
+		})
+
+		// Command: Audit image library
+		this.addCommand({
+			id: 'audit-image-library',
+			name: 'Audit image library for orphaned notes and missing images',
+			callback: () => {
+				new LibraryAuditModal(this.app, this).open()
+			}
+		})
+
+		// Command: Search images by tag query
+		this.addCommand({
+			id: 'search-images-by-query',
+			name: 'Search images by tag query',
+			callback: () => {
+				new ImageQueryModal(this.app, this).open()
+			}
+		})
+
+		// Command: Find images by color
+		this.addCommand({
+			id: 'find-images-by-color',
+			name: 'Find images by color',
+			callback: () => {
+				new ColorSearchModal(this.app, this).open()
+			}
+		})
+
+		// Command: Backfill color palettes
+		this.addCommand({
+			id: 'backfill-image-palettes',
+			name: 'Extract color palettes for notes without one',
+			callback: () => {
+				backfillPalettes(this).catch(error => {
+					console.error('Palette backfill failed:', error)
+					new Notice('Palette backfill failed')
+				})
+			}
+		})
+
+		// Command: Backfill image metadata
+		this.addCommand({
+			id: 'backfill-image-metadata',
+			name: 'Backfill image dimensions and metadata in existing notes',
+			callback: () => {
+				backfillImageMetadata(this).catch(error => {
+					console.error('Metadata backfill failed:', error)
+					new Notice('Metadata backfill failed')
+				})
+			}
+		})
+
 		// Register the sidebar view
 		this.registerView(
 			VIEW_TYPE_TAG_MANAGER,
 			(leaf) => new RenderElement(leaf, this)
 		)
 
+		// Register the gallery view
+		this.registerView(
+			VIEW_TYPE_IMAGE_GALLERY,
+			(leaf) => new ImageGalleryView(leaf, this)
+		)
+		// Register the inbox view
+		this.registerView(
+			VIEW_TYPE_IMAGE_INBOX,
+			(leaf) => new ImageInboxView(leaf, this)
+		)
+		// Register the duplicates view
+		this.registerView(
+			VIEW_TYPE_IMAGE_DUPLICATES,
+			(leaf) => new ImageDuplicatesView(leaf, this)
+		)
+
+		this.registerHoverLinkSource(VIEW_TYPE_IMAGE_GALLERY, {
+			display: 'Image gallery',
+			defaultMod: false,
+		})
+
 		// Add settings tab
 		this.addSettingTab(new ImageTagSettingTab(this.app, this))
 
@@ -83,16 +366,30 @@ export default class ImageTagPlugin extends Plugin {
 		const cursor = editor.getCursor()
 		const line = editor.getLine(cursor.line)
 
-		const match = line.match(/!\[\[([^\]]+\.(?:png|jpg|jpeg|gif|webp|bmp|svg))\]\]/i)
-		if (match && match[1]) {
-			return match[1]
+		// Prefer the embed under the cursor when a line holds several; size and heading suffixes are dropped
+		const embedRegex = /!\[\[([^\]|#]+\.(?:png|jpg|jpeg|gif|webp|bmp|svg))(?:[|#][^\]]*)?\]\]/gi
+		let fallback: string | null = null
+		let match: RegExpExecArray | null
+		while ((match = embedRegex.exec(line)) !== null) {
+			if (!match[1]) continue
+			fallback = fallback ?? match[1]
+			if (cursor.ch >= match.index && cursor.ch <= match.index + match[0].length) {
+				return match[1]
+			}
 		}
-		return null
+		return fallback
 	}
 
 	// Settings management
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<ImageTagSettings>)
+		const data = await this.loadData() as Partial<ImageTagSettings> | null
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data)
+		// The tag list is edited in place, so it must never be the array from DEFAULT_SETTINGS
+		this.settings.tags = [...(data?.tags ?? [])]
+		// Nested objects are merged on their own so a partial save keeps the remaining defaults
+		this.settings.frontmatterKeys = Object.assign({}, DEFAULT_SETTINGS.frontmatterKeys, data?.frontmatterKeys)
+		this.settings.imageHashes = Object.assign({}, data?.imageHashes)
+		this.settings.tagAliases = Object.assign({}, data?.tagAliases)
 	}
 
 	async saveSettings() {
@@ -101,12 +398,13 @@ export default class ImageTagPlugin extends Plugin {
 	}
 
 	async addNewTag(tag: string): Promise<boolean> {
-		const cleanTag = tag.trim().toLowerCase()
+		// Adding an alias adds its canonical tag instead
+		const cleaned = this.resolveAlias(cleanTag(tag))
 
-		if (!cleanTag) return false
-		if (this.settings.tags.includes(cleanTag)) return false
+		if (!cleaned) return false
+		if (this.settings.tags.includes(cleaned)) return false
 
-		this.settings.tags.push(cleanTag)
+		this.settings.tags.push(cleaned)
 		await this.saveSettings()
 		return true
 	}
@@ -121,6 +419,119 @@ export default class ImageTagPlugin extends Plugin {
 		return false
 	}
 
+	// Rename a tag and every tag nested below it
+	async renameTagTree(tag: string, edit: string): Promise<void> {
+		const cleanEdit = edit.trim().toLowerCase().replace(/^#/, '')
+		if (!cleanEdit) return
+
+		const renamed = this.settings.tags.map(t => replaceTagPrefix(t, tag, cleanEdit))
+		if (!renamed.includes(cleanEdit)) renamed.push(cleanEdit)
+
+		this.settings.tags = [...new Set(renamed)]
+
+		// Aliases stay attached to the renamed tag
+		const aliases: Record<string, string[]> = {}
+		Object.entries(this.settings.tagAliases).forEach(([canonical, synonyms]) => {
+			// A rename onto an existing tag (e.g. a merge) keeps both sets of synonyms
+			const key = replaceTagPrefix(canonical, tag, cleanEdit)
+			aliases[key] = [...new Set([...(aliases[key] ?? []), ...synonyms])]
+		})
+		this.settings.tagAliases = aliases
+
+		// Categories keep covering the renamed tags
+		this.settings.tagCategories = this.settings.tagCategories.map(category => ({
+			...category,
+			tags: [...new Set(category.tags.map(t => replaceTagPrefix(t, tag, cleanEdit)))]
+		}))
+
+		await this.saveSettings()
+	}
+
+	// Remove a tag and every tag nested below it, returning how many were removed
+	async removeTagTree(tag: string): Promise<number> {
+		const before = this.settings.tags.length
+		this.settings.tags = this.settings.tags.filter(t => !isTagOrDescendant(t, tag))
+
+		const aliases = { ...this.settings.tagAliases }
+		Object.keys(aliases).filter(canonical => isTagOrDescendant(canonical, tag)).forEach(canonical => delete aliases[canonical])
+		this.settings.tagAliases = aliases
+
+		this.settings.tagCategories = this.settings.tagCategories.map(category => ({
+			...category,
+			tags: category.tags.filter(t => !isTagOrDescendant(t, tag))
+		}))
+
+		const removed = before - this.settings.tags.length
+		if (removed > 0) {
+			await this.saveSettings()
+		}
+		return removed
+	}
+
+	// ==================== TAG ALIASES ====================
+	resolveAlias(tag: string): string {
+		return resolveTagAlias(tag, this.settings.tagAliases)
+	}
+
+	// Replace the synonyms of a canonical tag; aliases are taken out of the tag list and other alias sets
+	async setTagAliases(canonical: string, synonyms: string[]) {
+		const cleaned = [...new Set(synonyms.map(cleanTag))]
+			.filter(alias => alias && alias !== canonical && !this.settings.tagAliases[alias])
+
+		const aliases: Record<string, string[]> = {}
+		Object.entries(this.settings.tagAliases).forEach(([tag, list]) => {
+			const remaining = list.filter(alias => !cleaned.includes(alias))
+			if (tag !== canonical && remaining.length > 0) aliases[tag] = remaining
+		})
+		if (cleaned.length > 0) aliases[canonical] = cleaned
+
+		this.settings.tagAliases = aliases
+		this.settings.tags = this.settings.tags.filter(tag => !cleaned.includes(tag))
+		await this.saveSettings()
+	}
+
+	// Merge several tags into one, returning one result per affected file
+	async mergeTags(tags: string[], target: string): Promise<TagRewriteResult[]> {
+		const sources = getMergeOrder(tags, target)
+		const changes = await planTagMerge(this, tags, target)
+
+		return applyTagChanges(this, `Merge ${sources.join(', ')} into ${target}`, changes, async () => {
+			for (const tag of sources) {
+				await this.renameTagTree(tag, target)
+			}
+		})
+	}
+
+	// Confirm, normalize and report
+	async runAliasNormalization() {
+		const aliasCount = Object.values(this.settings.tagAliases).reduce((sum, list) => sum + list.length, 0)
+		if (aliasCount === 0) {
+			new Notice('No tag aliases defined')
+			return
+		}
+
+		const confirmed = await this.showCriticalWarning(
+			'Normalize tag aliases',
+			{ txt: `Every use of ${aliasCount} alias${aliasCount === 1 ? '' : 'es'} in your notes will be rewritten to its canonical tag.` },
+			'Normalize'
+		)
+		if (!confirmed) return
+
+		const rewritten = await this.normalizeTagAliases()
+		this.refreshTagManager()
+		new Notice(rewritten > 0 ? `Normalized ${rewritten} alias${rewritten === 1 ? '' : 'es'}` : 'No aliased tags found in notes')
+	}
+
+	// Rewrite every aliased tag in the vault to its canonical tag, returning how many aliases were found in use
+	async normalizeTagAliases(): Promise<number> {
+		const inUse = getAliasesInUse(this)
+		if (inUse.length === 0) return 0
+
+		const changes = await planAliasNormalization(this)
+		await applyTagChanges(this, 'Normalize tag aliases', changes, () => Promise.resolve())
+		return inUse.length
+	}
+
 	async activateTagManagerView() {
 		const { workspace } = this.app
 
@@ -153,96 +564,250 @@ export default class ImageTagPlugin extends Plugin {
 			})
 		}
 	}
-	async scanForExistingTags(): Promise<string[]> {
-		const foundTags = new Set<string>()
-		const files = this.app.vault.getMarkdownFiles()
 
-		console.debug(`ImageTag: Scanning ${files.length} files for existing tags...`)
+	async activateGalleryView() {
+		const { workspace } = this.app
 
-		for (const file of files) {
-			try {
-				const content = await this.app.vault.read(file)
+		// Galleries showing a board are left alone
+		let leaf: WorkspaceLeaf | undefined = workspace.getLeavesOfType(VIEW_TYPE_IMAGE_GALLERY)
+			.find(l => l.view instanceof ImageGalleryView && !l.view.board)
 
-				// Find all #tags in the content
-				const tagMatches = content.match(/(?:#|-\s)([a-zA-Z0-9_-]+)/g)
-				if (tagMatches) {
-					tagMatches.forEach(tagMatch => {
-						const cleanTag = tagMatch.replace(/^(?:#|-\s)/, '').toLowerCase().trim()
+		if (!leaf) {
+			// Gallery needs room, so open it as a main tab
+			leaf = workspace.getLeaf('tab')
+			await leaf.setViewState({
+				type: VIEW_TYPE_IMAGE_GALLERY,
+				active: true,
+			})
+		}
 
-						if (cleanTag && cleanTag.length > 1) { // Skip single character tags
-							foundTags.add(cleanTag)
-						}
-					})
-				}
+		await workspace.revealLeaf(leaf)
+	}
 
-				// Also check frontmatter tags
-				const frontmatterMatch = content.match(/tags:\s*\[([\s\S]*?)\]/)
-				if (frontmatterMatch) {
-					const tagsString = frontmatterMatch?.[1]
-					if (!tagsString) continue
-					const tags = tagsString.split(',').map(tag =>
-						tag.trim().replace(/["']/g, '').toLowerCase()
-					).filter(tag => tag.length > 1)
+	// Browse a board as a grid in its own gallery tab
+	async activateBoardView(board: string) {
+		const { workspace } = this.app
 
-					tags.forEach(tag => foundTags.add(tag))
-				}
-			} catch (error) {
-				console.error(`ImageTag: Error reading ${file.path}:`, error)
-			}
+		let leaf: WorkspaceLeaf | undefined = workspace.getLeavesOfType(VIEW_TYPE_IMAGE_GALLERY)
+			.find(l => l.view instanceof ImageGalleryView && l.view.board === board)
+
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab')
+			await leaf.setViewState({
+				type: VIEW_TYPE_IMAGE_GALLERY,
+				active: true,
+				state: { board }
+			})
 		}
-		const allFoundTags = Array.from(foundTags)
 
-		// Get current tags from settings
-		const currentTags = this.settings.tags || []
+		await workspace.revealLeaf(leaf)
+	}
 
-		// Compare to find new and existing tags
-		const newTags = allFoundTags.filter(tag => !currentTags.includes(tag))
+	async activateInboxView() {
+		const { workspace } = this.app
 
-		if (newTags.length > 0) {
+		let leaf: WorkspaceLeaf | undefined = workspace.getLeavesOfType(VIEW_TYPE_IMAGE_INBOX)[0]
 
-			new Notice('Please restart Obsidian to refresh tag list')
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab')
+			await leaf.setViewState({
+				type: VIEW_TYPE_IMAGE_INBOX,
+				active: true,
+			})
+		} else if (leaf.view instanceof ImageInboxView) {
+			leaf.view.reload()
 		}
 
-		if (newTags.length > 0) {
-			// Ask user if they want to merge or replace
-			const modal = new ConfirmationModal(this.app, 'Merge with existing tags? (Cancel to replace all tags)', `Found ${newTags.length} tags. `)
-			modal.open()
-			let merge = false
-			merge = await modal.promise
-
-			if (merge) {
-				// Merge
-				const mergedTags = [...new Set([...DEFAULT_SETTINGS.tags, ...newTags])]
-				this.settings.tags = mergedTags.sort()
-				await this.saveSettings()
-				this.allTags = this.settings.tags
-			}
+		await workspace.revealLeaf(leaf)
+	}
 
-			await this.saveSettings()
-			new Notice(`Updated tags. Total: ${this.settings.tags.length} tags`)
-			new Notice('Please restart Obsidian to take effect')
-		} else {
-			new Notice('No tags found in vault')
+	async activateDuplicatesView() {
+		const { workspace } = this.app
+
+		let leaf: WorkspaceLeaf | undefined = workspace.getLeavesOfType(VIEW_TYPE_IMAGE_DUPLICATES)[0]
+
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab')
+			await leaf.setViewState({
+				type: VIEW_TYPE_IMAGE_DUPLICATES,
+				active: true,
+			})
 		}
 
-		return newTags
+		await workspace.revealLeaf(leaf)
+	}
+
+	// Re-index after the tag scope (or a setting it depends on) changed
+	refreshTagScope() {
+		this.tagIndex.build()
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_TAG_MANAGER).forEach(leaf => {
+			if (leaf.view instanceof RenderElement) {
+				leaf.view.tagManager?.refreshTagsList()
+			}
+		})
+	}
+
+	// Scope settings change on every keystroke, so re-indexing waits for typing to stop
+	requestTagScopeRefresh = debounce(() => this.refreshTagScope(), 500, true)
+
+	// Re-render every open tag manager, e.g. after the tag list in settings changed
+	refreshTagManager() {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_TAG_MANAGER).forEach(leaf => {
+			if (leaf.view instanceof RenderElement) {
+				leaf.view.tagManager?.refreshTagsList()
+			}
+		})
+	}
+
+	// Re-render the board lists, e.g. after a board was created, renamed or deleted
+	refreshBoards() {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_TAG_MANAGER).forEach(leaf => {
+			if (leaf.view instanceof RenderElement) {
+				leaf.view.boardList?.render()
+			}
+		})
+	}
+
+	// Pick boards for images, creating notes for images that don't have one
+	openBoardPicker(images: TFile[]) {
+		const { notes, untracked } = findBoardTargets(this, images)
+		new BoardPickerModal(this.app, this, notes, untracked).open()
 	}
+
 	// Helper: Check if file is an image
 	private isImageFile(file: TFile): boolean {
-		const imageExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.svg']
-		return imageExtensions.some(ext => file.name.toLowerCase().endsWith(ext))
+		return isImageFile(file)
+	}
+
+	// Create the metadata note for an image in the default folder
+	async createImageNote(image: TFile, data: ImageNoteData): Promise<TFile> {
+		const { noteTemplatePath, noteTemplate, frontmatterKeys } = this.settings
+
+		// The template stores the full vault path by default so same-named images stay distinct
+		const template = await loadNoteTemplate(this.app, noteTemplatePath, noteTemplate, frontmatterKeys)
+
+		// Size and EXIF come from the file itself; decoding is only a fallback for templates that need the size
+		const metadata = this.settings.extractImageMetadata ? await readImageMetadata(this.app, image) : null
+		const dimensions = metadata?.width !== undefined
+			? { width: metadata.width, height: metadata.height }
+			: templateNeedsDimensions(template) ? await readImageDimensions(this.app, image) : null
+
+		const author = data.author || metadata?.artist || ''
+		const fullContent = renderTemplate(template, {
+			image,
+			tags: data.tags,
+			author,
+			notes: data.notes,
+			width: dimensions?.width,
+			height: dimensions?.height
+		})
+
+		// Name the note and route it to its folder, creating nested folders as needed
+		const { folder, path } = getNotePath(this.app, this.settings, { image, tags: data.tags, author })
+		await ensureFolder(this.app, folder)
+
+		const file = await this.app.vault.create(path, fullContent)
+		if (data.boards && data.boards.length > 0) {
+			const boards = data.boards
+			await updateNoteBoards(this.app, file, frontmatterKeys, () => boards)
+		}
+		if (metadata) {
+			await applyMetadataToNote(this.app, file, metadata, frontmatterKeys)
+		}
+		if (this.settings.extractPalette) {
+			const palette = await extractPalette(this.app, image)
+			if (palette.length > 0) await writePalette(this.app, file, palette)
+		}
+
+		// Hash tagged images up front so later duplicates of them can be flagged
+		this.hashCache.getHash(image).catch(error => {
+			console.error('Failed to hash image:', error)
+		})
+		return file
+	}
+
+	// Add tags to an existing image note, returning false when it already had them all
+	async mergeTagsIntoNote(file: TFile, tags: string[]): Promise<boolean> {
+		let changed = false
+		const tagsKey = this.settings.frontmatterKeys.tags
+
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			const currentTags = normalizeTags(frontmatter[tagsKey])
+			const merged = [...new Set([...currentTags, ...tags])]
+
+			if (merged.length !== currentTags.length) {
+				frontmatter[tagsKey] = merged
+				changed = true
+			}
+		})
+
+		return changed
+	}
+
+	// Helper: Collect image files from a selection, descending into folders
+	private getImageFiles(files: TAbstractFile[]): TFile[] {
+		const images = new Set<TFile>()
+
+		files.forEach(file => {
+			if (file instanceof TFolder) {
+				Vault.recurseChildren(file, child => {
+					if (child instanceof TFile && this.isImageFile(child)) images.add(child)
+				})
+			} else if (file instanceof TFile && this.isImageFile(file)) {
+				images.add(file)
+			}
+		})
+
+		return Array.from(images)
 	}
 
 	// Helper: Tag image file from context menu
 	private tagImageFile(file: TFile) {
-		// Show tag modal
-		new NoteAddingModal(
+		this.openTagModal(file).catch(error => {
+			console.error(error)
+		})
+	}
+
+	// Open the tag modal, pre-populated from the image's note when it already has one
+	async openTagModal(image: TFile) {
+		const modal = new NoteAddingModal(
 			this.app,
 			this,
-			file.name,
+			image,
 			this.allTags,
 			this.settings.defaultFolder
-		).open()
+		)
+
+		const existingNote = findImageNote(this.app, image, this.settings.frontmatterKeys)
+		if (existingNote) {
+			await modal.loadExistingNote(existingNote)
+		} else {
+			// Pre-select what the auto-tagging rules suggest for a new note
+			const ruleTags = await evaluateRules(this.app, this.settings.autoTagRules, image)
+			ruleTags.forEach(tag => modal.selectedTags.add(this.resolveAlias(tag)))
+		}
+
+		// Embedded artist and keywords become the default author and suggested tags
+		if (this.settings.extractImageMetadata) {
+			const metadata = await readImageMetadata(this.app, image)
+			if (!existingNote && metadata.artist) modal.author = metadata.artist
+			modal.suggestedTags = [...new Set(metadata.keywords
+				.map(keyword => this.resolveAlias(cleanTag(keyword).replace(/\s+/g, '-')))
+				.filter(Boolean))]
+		}
+
+		modal.duplicateOf = await findTaggedDuplicate(this, image)
+		modal.tagStats = computeTagStats(this.app, this.settings.frontmatterKeys, tag => this.resolveAlias(tag))
+
+		// Stored palette of an existing note, otherwise a fresh one for preview
+		const storedPalette = existingNote ? readPalette(this.app.metadataCache.getFileCache(existingNote)?.frontmatter?.[PALETTE_KEY]) : []
+		if (storedPalette.length > 0) {
+			modal.palette = storedPalette
+		} else if (this.settings.extractPalette) {
+			modal.palette = await extractPalette(this.app, image)
+		}
+
+		modal.open()
 	}
 
 	onunload() {
@@ -304,6 +869,7 @@ export default class ImageTagPlugin extends Plugin {
 class RenderElement extends ItemView {
 	plugin: ImageTagPlugin
 	tagManager: TagManagerView | null = null
+	boardList: BoardListView | null = null
 
 	constructor(leaf: WorkspaceLeaf, plugin: ImageTagPlugin) {
 		super(leaf)
@@ -325,14 +891,29 @@ class RenderElement extends ItemView {
 	onOpen(): Promise<void> {
 		const { containerEl } = this
 		containerEl.empty()
+		// Tags on top, boards in their own section below
+		containerEl.addClass('tag-manager-sidebar')
 		const contentEl = containerEl.createDiv('tag-manager-container')
 		this.tagManager = new TagManagerView(this.plugin, contentEl)
+		this.boardList = new BoardListView(this.plugin, containerEl.createDiv('board-list-container'))
+
+		// Counts come from the live index, so re-render whenever it changes
+		this.registerEvent(
+			this.plugin.tagIndex.on('changed', () => this.tagManager?.refreshTagsList())
+		)
+		// Registered once here, so the listener goes away with the view
+		this.registerDomEvent(document, 'click', (e) => this.tagManager?.closeSortDropdown(e.target as Node))
+		// Board counts are read from the notes themselves
+		const refreshBoards = debounce(() => this.boardList?.render(), 500, true)
+		this.registerEvent(this.app.metadataCache.on('changed', () => refreshBoards()))
+		this.registerEvent(this.app.vault.on('delete', () => refreshBoards()))
 		return Promise.resolve()
 	}
 
 
 	onClose(): Promise<void> {
 		this.tagManager = null
+		this.boardList = null
 		return Promise.resolve()
 	}
 }
@@ -343,6 +924,12 @@ class TagManagerView {
 	handle: TagAddingModal
 	containerEl: HTMLElement
 	tagInputEl: HTMLInputElement
+	expandedTags: Set<string> = new Set()
+	searchTerm: string = ''
+	currentSort: { by: 'name' | 'count' | 'relevance', term?: string } | null = null
+	selectionMode = false
+	selectedTags: Set<string> = new Set()
+	selectionBarEl: HTMLElement
 
 
 	constructor(plugin: ImageTagPlugin, containerEl: HTMLElement) {
@@ -362,6 +949,10 @@ class TagManagerView {
 
 		// Header
 		this.containerEl.createEl('h3', { text: 'Tag manager' })
+		this.containerEl.createEl('p', {
+			text: `Scope: ${describeTagScope(this.plugin.settings)}`,
+			cls: 'tag-manager-scope'
+		})
 
 		// Stats
 		const tagCount = this.plugin.settings.tags.length
@@ -383,51 +974,78 @@ class TagManagerView {
 			tagsContainer.id = 'tag-manager-list'
 		}
 
-		// Get all files and their metadata
-		const files = this.plugin.app.vault.getMarkdownFiles()
-		const tagCounts: Record<string, number> = {}
+		tagsContainer.empty()
 
-		files.forEach(file => {
-			const cache = this.plugin.app.metadataCache.getFileCache(file)
-			if (cache?.tags) {
-				cache.tags.forEach(tagInfo => {
-					const tag = tagInfo.tag.substring(1)
-					tagCounts[tag] = (tagCounts[tag] || 0) + 1
-				})
-			}
-
-			// Also check frontmatter tags
-			if (cache?.frontmatter?.tags) {
-				const tags = Array.isArray(cache.frontmatter.tags)
-					? cache.frontmatter.tags
-					: [cache.frontmatter.tags]
+		// Display tags from settings as a tree, with rolled-up counts from the tag index
+		const tree = buildTagTree(this.plugin.settings.tags)
+		const categories = this.plugin.settings.tagCategories
+		if (categories.length === 0) {
+			tree.forEach(node => this.createTagNode(node, tagsContainer as HTMLElement))
+			return
+		}
 
-				tags.forEach(tag => {
-					const cleanTag = typeof tag === 'string' ? tag : String(tag)
-					tagCounts[cleanTag] = (tagCounts[cleanTag] || 0) + 1
-				})
-			}
+		// Top-level tags are sectioned by category; nested tags keep their own category color
+		groupByCategory(tree.map(node => node.path), categories).forEach(({ category, tags }) => {
+			const section = (tagsContainer as HTMLElement).createDiv('tag-category-section')
+			renderCategoryHeader(section, category, 'tag-category-header')
+			const nodesEl = section.createDiv('tag-category-nodes')
+			tree.filter(node => tags.includes(node.path)).forEach(node => this.createTagNode(node, nodesEl))
 		})
+	}
 
-		tagsContainer.empty()
+	// Re-render after index or settings changes, keeping the current search and sort
+	refreshTagsList() {
+		this.renderTagsList()
+		if (this.searchTerm) this.filterTags(this.searchTerm)
+		if (this.currentSort) this.sortTags(this.currentSort.by, this.currentSort.term)
+		this.updateStats()
+	}
 
-		const existingTags = new Set()
-		tagsContainer.querySelectorAll('.tag-manager-item').forEach(item => {
-			existingTags.add(item.textContent)
-		})
+	createTagNode(node: TagTreeNode, container: HTMLElement) {
+		const nodeEl = container.createDiv('tag-tree-node')
+		const count = this.plugin.tagIndex.getCount(node.path)
+		const tagItem = this.createTagItem(node.path, count, nodeEl)
+
+		if (node.children.length === 0) return nodeEl
 
-		// Display tags from settings with their counts
-		this.plugin.settings.tags.forEach(tag => {
-			// Skip if already exists
-			if (existingTags.has(tag)) return
+		nodeEl.addClass('tag-tree-parent')
+		nodeEl.toggleClass('is-collapsed', !this.expandedTags.has(node.path))
 
-			const count = tagCounts[tag] || 0
-			this.createTagItem(tag, count, tagsContainer as HTMLElement)
+		const toggle = tagItem.createSpan({ cls: 'tag-tree-toggle', text: '▸' })
+		tagItem.prepend(toggle)
+		toggle.addEventListener('click', (e) => {
+			e.stopPropagation()
+			if (this.expandedTags.has(node.path)) {
+				this.expandedTags.delete(node.path)
+			} else {
+				this.expandedTags.add(node.path)
+			}
+			nodeEl.toggleClass('is-collapsed', !this.expandedTags.has(node.path))
 		})
+
+		const childrenEl = nodeEl.createDiv('tag-tree-children')
+		node.children.forEach(child => this.createTagNode(child, childrenEl))
+
+		return nodeEl
 	}
 
 	createTagItem(tag: string, tagCount: number, container: HTMLElement) {
 		const tagItem = container.createDiv('tag-manager-item')
+		tagItem.dataset.tag = tag
+		if (this.selectionMode) {
+			const checkbox = tagItem.createEl('input', { type: 'checkbox', cls: 'tag-select-checkbox' })
+			checkbox.checked = this.selectedTags.has(tag)
+			checkbox.addEventListener('click', (e) => e.stopPropagation())
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selectedTags.add(tag)
+				} else {
+					this.selectedTags.delete(tag)
+				}
+				this.updateSelectionBar()
+			})
+		}
+
 		const tagContent = tagItem.createDiv('tag-content')
 		const btnContainer = tagItem.createDiv('btn-Container')
 
@@ -438,11 +1056,37 @@ class TagManagerView {
 		})
 
 
+		// Category color on the whole item, icon in front of the name
+		const category = getTagCategory(tag, this.plugin.settings.tagCategories)
+		if (category) {
+			applyCategoryStyle(tagItem, category, false)
+			renderCategoryIcon(tagContent, category)
+		}
+
+		// Nested tags show only their own segment, the full path is kept in the title
 		const tagName = tagContent.createEl('span', {
-			text: tag,
-			cls: 'tag-name'
+			text: tag.split('/').pop() || tag,
+			cls: 'tag-name',
+			title: tag
 		})
 
+		// Synonyms that resolve to this tag
+		const aliases = this.plugin.settings.tagAliases[tag] ?? []
+		if (aliases.length > 0) {
+			tagItem.dataset.aliases = aliases.join(' ')
+			tagContent.createEl('span', {
+				text: `= ${aliases.join(', ')}`,
+				cls: 'tag-aliases',
+				title: 'Aliases'
+			})
+		}
+
+		// Dominant colors of the images carrying this tag
+		const palette = getTagPalette(this.plugin.app, this.plugin.tagIndex.getFiles(tag))
+		if (palette.length > 0) {
+			renderSwatches(tagContent, palette).addClass('tag-palette')
+		}
+
 		tagContent.addEventListener('click', () => {
 			// Copy tag to clipboard for easy use
 			navigator.clipboard.writeText(tag).catch(error => {
@@ -455,6 +1099,36 @@ class TagManagerView {
 			cls: 'tag-edit-btn',
 			title: "Edit tag"
 		})
+		// Alias button
+		const aliasBtn = btnContainer.createEl('button', {
+			text: '⇄',
+			cls: 'tag-alias-btn',
+			title: 'Edit aliases'
+		})
+		aliasBtn.addEventListener('click', () => {
+			new TagAliasModal(this.plugin.app, tag, aliases, (synonyms) => {
+				this.plugin.setTagAliases(tag, synonyms).then(() => {
+					this.refreshTagsList()
+				}).catch(error => {
+					console.error('Failed to save aliases:', error)
+				})
+			}).open()
+		})
+		// Board button: put every image carrying the tag on boards
+		const boardBtn = btnContainer.createEl('button', {
+			text: '▦',
+			cls: 'tag-board-btn',
+			title: 'Add images to board'
+		})
+		boardBtn.addEventListener('click', () => {
+			const keys = this.plugin.settings.frontmatterKeys
+			const notes = this.plugin.tagIndex.getFiles(tag).filter(file => readImageNote(this.plugin.app, file, keys))
+			if (notes.length === 0) {
+				new Notice(`No image notes tagged ${tag}`)
+				return
+			}
+			new BoardPickerModal(this.plugin.app, this.plugin, notes).open()
+		})
 		// Delete button
 		const deleteBtn = btnContainer.createEl('button', {
 			text: '×',
@@ -470,14 +1144,14 @@ class TagManagerView {
 					tagCount,
 					(newName: string | null) => {
 						if (newName && newName !== tag) {
-							try {
-								void this.EditTag(tag, newName)
+							this.EditTag(tag, newName).then((renamed) => {
+								if (!renamed) return
 								new Notice(`Successfully renamed tag from ${tag} to ${newName}`)
-								tagName.setText(newName)
-							} catch (error) {
+								this.renderTagsList()
+							}).catch(error => {
 								console.error("Failed to edit tag:", error)
 								new Notice(`Failed to rename tag: ${String(error)}`)
-							}
+							})
 						}
 					}
 				)
@@ -499,9 +1173,9 @@ class TagManagerView {
 					if (e.key === 'Enter') {
 						const newTag = input.value.trim()
 						if (newTag && newTag !== tag) {
-							this.plugin.addNewTag(newTag).catch(console.error)
-							this.plugin.removeTag(tag).catch(console.error)
-							tagName.setText(newTag)
+							this.plugin.renameTagTree(tag, newTag)
+								.then(() => this.renderTagsList())
+								.catch(console.error)
 						} else {
 							tagName.setText(tag)
 						}
@@ -523,24 +1197,26 @@ class TagManagerView {
 		deleteBtn.addEventListener('click', (e) => {
 			void (async () => {
 				let confirmed = false
-				if (tagCount > 0) {
-					// Show warning for tags that are in use
-					const title = 'Delete tag warning'
-					const warninfo = {
-						txt: `This tag is used in ${tagCount} file${tagCount > 1 ? 's' : ''}.`,
-						txt1: `Deleting "${tag}" will remove it from all files.`,
-						txt2: "This action cannot be undone."
-					}
-					const confirmbtn = `Delete from ${tagCount} file${tagCount > 1 ? 's' : ''}`
-
-					confirmed = await this.plugin.showCriticalWarning(title, warninfo, confirmbtn)
+				const changes = tagCount > 0 ? await planTagRemoval(this.plugin, tag) : []
+				const changed = countChanged(changes)
+				if (changed > 0) {
+					// Preview every file the deletion rewrites
+					const preview = new TagChangePreviewModal(
+						this.plugin.app,
+						'Delete tag',
+						`Deleting "${tag}" will remove it from all files.`,
+						changes,
+						`Delete from ${changed} file${changed > 1 ? 's' : ''}`
+					)
+					preview.open()
+					confirmed = await preview.promise
 				} else {
 					const modal = new ConfirmationModal(this.plugin.app, `Delete tag "${tag}"?`, "Warning ")
 					modal.open()
 					confirmed = await modal.promise
 				}
 				if (confirmed) {
-					await this.handleTagDeletion(tag)
+					await this.handleTagDeletion(tag, changes)
 				}
 			})().catch(error => {
 				console.error("Failed to delete tag", error)
@@ -550,49 +1226,35 @@ class TagManagerView {
 		return tagItem
 	}
 
-	async EditTag(tag: string, edit: string) {
-		const files = this.plugin.app.vault.getMarkdownFiles();
-		const tagRegex = new RegExp(`(#|\\-\\s)${tag}\\b`, 'g');
-
-		for (const file of files) {
-			try {
-				// 1. Handle Frontmatter with Type Safety
-				await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
-					const currentTags = frontmatter["tags"];
-
-					if (!currentTags) return;
-					if (Array.isArray(currentTags)) {
-						frontmatter["tags"] = (currentTags as unknown[]).map((t: unknown): string => {
-							const tagString = String(t);
-							return tagString === tag ? edit : tagString;
-						});
-					} else if (typeof currentTags === 'string' && currentTags === tag) {
-						frontmatter["tags"] = edit;
-					}
-				});
-
-				// 2. Handle Document Body
-				await this.plugin.app.vault.process(file, (data) => {
-					return tagRegex.test(data) ? data.replace(tagRegex, `$1${edit}`) : data;
-				});
-
-			} catch (error) {
-				console.error(`Error processing ${file.path}:`, error);
-			}
+	// Preview the rename, then apply it; resolves to false when cancelled
+	async EditTag(tag: string, edit: string): Promise<boolean> {
+		const changes = await planTagRename(this.plugin, tag, edit)
+		const changed = countChanged(changes)
+
+		if (changed > 0) {
+			const preview = new TagChangePreviewModal(
+				this.plugin.app,
+				'Rename tag',
+				`Rename "${tag}" to "${edit}" in every file that uses it.`,
+				changes,
+				`Rename in ${changed} file${changed > 1 ? 's' : ''}`
+			)
+			preview.open()
+			if (!(await preview.promise)) return false
 		}
 
-		await this.plugin.addNewTag(edit);
-		await this.plugin.removeTag(tag);
+		await applyTagChanges(this.plugin, `Rename ${tag} to ${edit}`, changes, () => this.plugin.renameTagTree(tag, edit))
+		return true
 	}
 	DeleteTag(tag: string) {
 		const tagsList = this.containerEl.querySelector('#tag-manager-list')
 		if (!tagsList) return
 
-		const tagItems = tagsList.querySelectorAll('.tag-manager-item')
+		// Removing the tree node also removes every nested tag below it
+		const tagItems = tagsList.querySelectorAll<HTMLElement>('.tag-manager-item')
 		tagItems.forEach(item => {
-			const tagName = item.querySelector('.tag-name')?.textContent
-			if (tagName === tag) {
-				item.remove()
+			if (item.dataset.tag === tag) {
+				(item.closest('.tag-tree-node') ?? item).remove()
 			}
 		})
 
@@ -603,19 +1265,28 @@ class TagManagerView {
 		const tagsList = this.containerEl.querySelector('#tag-manager-list')
 		if (!tagsList) return
 
-		const tagItems = tagsList.querySelectorAll('.tag-manager-item')
 		const searchLower = searchTerm.toLowerCase()
 
-		tagItems.forEach(item => {
-			const tagName = item.querySelector('.tag-name')?.textContent?.toLowerCase() || ''
-			const isVisible = tagName.includes(searchLower)
+		// Match on the full tag path; a parent stays visible while any of its descendants match
+		tagsList.querySelectorAll('.tag-tree-node').forEach(node => {
+			const isVisible = Array.from(node.querySelectorAll<HTMLElement>('.tag-manager-item'))
+				.some(item => (item.dataset.tag ?? '').toLowerCase().includes(searchLower) ||
+					(item.dataset.aliases ?? '').includes(searchLower))
 
 			if (isVisible) {
-				item.classList.remove('tag-hidden')
+				node.classList.remove('tag-hidden')
 			} else {
-				item.classList.add('tag-hidden')
+				node.classList.add('tag-hidden')
 			}
 		})
+
+		// Category sections without a visible tag are hidden as a whole
+		tagsList.querySelectorAll('.tag-category-section').forEach(section => {
+			section.toggleClass('tag-hidden', !section.querySelector('.tag-category-nodes > .tag-tree-node:not(.tag-hidden)'))
+		})
+
+		// Expand the whole tree while searching
+		tagsList.toggleClass('tag-tree-searching', searchLower.length > 0)
 	}
 
 	updateStats() {
@@ -623,32 +1294,51 @@ class TagManagerView {
 		if (stats) {
 			stats.textContent = `${this.plugin.settings.tags.length} tags in your collection`
 		}
+		const scope = this.containerEl.querySelector('.tag-manager-scope')
+		if (scope) {
+			scope.textContent = `Scope: ${describeTagScope(this.plugin.settings)}`
+		}
+	}
+
+	// Close the sort dropdown when clicking outside the search and sort controls
+	closeSortDropdown(target: Node) {
+		const controls = this.containerEl.querySelector('.tag-search-sort-container')
+		if (controls && !controls.contains(target)) {
+			controls.querySelector('.tag-sort-dropdown')?.classList.remove('active')
+		}
 	}
 
 	sortTags(sortBy: 'name' | 'count' | 'relevance', searchTerm?: string) {
 		const tagsList = this.containerEl.querySelector('#tag-manager-list')
 		if (!tagsList) return
 
-		const tagItems = Array.from(tagsList.querySelectorAll('.tag-manager-item'))
-
-		switch (sortBy) {
-			case 'name':
-				this.sortByName(tagItems)
-				break
-			case 'count':
-				this.sortByCount(tagItems)
-				break
-			case 'relevance':
-				if (searchTerm) {
-					this.sortByRelevance(searchTerm, tagItems)
-				} else {
+		this.currentSort = { by: sortBy, term: searchTerm }
+
+		// Sort siblings within each level of the tag tree, and within each category section
+		const containers = [tagsList, ...Array.from(tagsList.querySelectorAll('.tag-category-nodes, .tag-tree-children'))]
+
+		containers.forEach(container => {
+			const tagItems = Array.from(container.children).filter(child => child.classList.contains('tag-tree-node'))
+
+			switch (sortBy) {
+				case 'name':
 					this.sortByName(tagItems)
-				}
-				break
-		}
+					break
+				case 'count':
+					this.sortByCount(tagItems)
+					break
+				case 'relevance':
+					if (searchTerm) {
+						this.sortByRelevance(searchTerm, tagItems)
+					} else {
+						this.sortByName(tagItems)
+					}
+					break
+			}
 
-		// Reattach in sorted order
-		this.reorderTagItems(tagItems)
+			// Reattach in sorted order
+			this.reorderTagItems(container, tagItems)
+		})
 	}
 
 	renderSearchAndSort() {
@@ -724,16 +1414,24 @@ class TagManagerView {
 		addbtn.addEventListener('click', (e) => {
 			this.handle.open()
 		})
-		// Close dropdown when clicking outside
-		document.addEventListener('click', (e) => {
-			if (!controlContainer.contains(e.target as Node)) {
-				dropdown.classList.remove('active')
-			}
-		})
 
+		// Toggle checkboxes for picking tags to merge
+		const selectBtn = controlContainer.createEl('button', {
+			text: '☑',
+			cls: 'tag-btn',
+			title: 'Select tags to merge'
+		})
+		selectBtn.toggleClass('is-active', this.selectionMode)
+		selectBtn.addEventListener('click', () => {
+			this.selectionMode = !this.selectionMode
+			this.selectedTags.clear()
+			selectBtn.toggleClass('is-active', this.selectionMode)
+			this.refreshTagsList()
+		})
 		// Search functionality
 		searchInput.addEventListener('input', () => {
 			const searchTerm = searchInput.value.trim()
+			this.searchTerm = searchTerm
 			this.filterTags(searchTerm)
 
 			if (searchTerm) {
@@ -741,20 +1439,68 @@ class TagManagerView {
 				sortbtn.textContent = 'Sort by relevance'
 			}
 		})
+
+		this.selectionBarEl = this.containerEl.createDiv('tag-selection-bar')
+		this.updateSelectionBar()
 	}
 
+	updateSelectionBar() {
+		const bar = this.selectionBarEl
+		bar.empty()
+		bar.toggleClass('tag-hidden', !this.selectionMode)
+		if (!this.selectionMode) return
+
+		const count = this.selectedTags.size
+		bar.createSpan({ text: count > 0 ? `${count} selected` : 'Select tags to merge', cls: 'tag-selection-count' })
+
+		const mergeBtn = bar.createEl('button', { text: 'Merge into…', cls: 'mod-cta' })
+		mergeBtn.disabled = count === 0
+		mergeBtn.addEventListener('click', () => {
+			const tags = Array.from(this.selectedTags)
+			new MergeTagsModal(this.plugin.app, tags, (target) => {
+				this.mergeSelectedTags(tags, target).catch(error => {
+					console.error('Failed to merge tags:', error)
+					new Notice('Failed to merge tags')
+				})
+			}).open()
+		})
+
+		const clearBtn = bar.createEl('button', { text: 'Clear' })
+		clearBtn.addEventListener('click', () => {
+			this.selectedTags.clear()
+			this.refreshTagsList()
+		})
+	}
+
+	async mergeSelectedTags(tags: string[], target: string) {
+		const cleanTarget = this.plugin.resolveAlias(cleanTag(target))
+		if (!cleanTarget) return
+
+		// Merging `a` into `a/b` would nest the result inside itself
+		if (tags.some(tag => tag !== cleanTarget && isTagOrDescendant(cleanTarget, tag))) {
+			new Notice(`Cannot merge a tag into one of its own nested tags (${cleanTarget})`)
+			return
+		}
 
-	private async handleTagDeletion(tag: string): Promise<void> {
+		const results = await this.plugin.mergeTags(tags, cleanTarget)
+
+		this.selectionMode = false
+		this.selectedTags.clear()
+		this.render()
+
+		new MergeReportModal(this.plugin.app, tags.filter(tag => tag !== cleanTarget), cleanTarget, results).open()
+	}
+
+
+	private async handleTagDeletion(tag: string, changes: TagChange[]): Promise<void> {
 		try {
-			// Remove tag from plugin settings
-			const removed = await this.plugin.removeTag(tag)
+			// Remove tag from the planned files, then (with its nested tags) from plugin settings
+			let removed = 0
+			await applyTagChanges(this.plugin, `Delete ${tag}`, changes, async () => {
+				removed = await this.plugin.removeTagTree(tag)
+			})
 
 			if (removed) {
-				// Remove tag from all markdown files
-				await this.removeTagFromAllFiles(tag).catch(error => {
-					console.error("Tag Removal Error", error)
-				})
-
 				this.DeleteTag(tag)
 
 				// Update stats
@@ -768,71 +1514,6 @@ class TagManagerView {
 		}
 	}
 
-	private async removeTagFromAllFiles(tag: string): Promise<void> {
-		const files = this.plugin.app.vault.getMarkdownFiles()
-
-		for (const file of files) {
-			try {
-				let content = await this.plugin.app.vault.read(file)
-				let modified = false
-
-				// Remove inline #tag references
-				const regex = new RegExp(`(#|\\-\\s)${tag}\\b`, 'g')
-				const newContent = content.replace(regex, '')
-				if (newContent !== content) {
-					content = newContent
-					modified = true
-				}
-
-				// Remove from frontmatter tags array
-				const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-				if (frontmatterMatch?.[1]) {
-					const frontmatter = frontmatterMatch[1]
-					const lines = frontmatter.split('\n')
-					const newLines = []
-
-					for (const line of lines) {
-						if (line.startsWith('tags:')) {
-							// Parse tags array
-							const tagsMatch = line.match(/tags:\s*\[(.*)\]/)
-							if (tagsMatch) {
-								const tagsStr = tagsMatch[1]
-								if (!tagsStr) continue
-								const tagsArray = tagsStr.split(',')
-									.map(t => t.trim().replace(/["']/g, ''))
-									.filter(t => t !== tag)
-
-								if (tagsArray.length > 0) {
-									const newTags = tagsArray.map(t => `"${t}"`).join(', ')
-									newLines.push(`tags: [${newTags}]`)
-								} else {
-									newLines.push('tags: []')
-								}
-								modified = true
-							} else {
-								newLines.push(line)
-							}
-						} else {
-							newLines.push(line)
-						}
-					}
-
-					if (modified) {
-						const newFrontmatter = newLines.join('\n')
-						content = content.replace(frontmatterMatch[0], `---\n${newFrontmatter}\n---`)
-					}
-				}
-
-				if (modified) {
-					await this.plugin.app.vault.modify(file, content)
-				}
-
-			} catch (error) {
-				console.error(`Error updating file ${file.path}:`, error)
-			}
-		}
-	}
-
 	// Sort alphabetically (A-Z)
 	private sortByName(tagItems: Element[]) {
 		tagItems.sort((a, b) => {
@@ -900,16 +1581,10 @@ class TagManagerView {
 	}
 
 	// Reorder items in the DOM
-	private reorderTagItems(tagItems: Element[]) {
-		const tagsList = this.containerEl.querySelector('#tag-manager-list')
-		if (!tagsList) return
-
-		// Clear and re-add in sorted order
-		tagsList.innerHTML = ''
+	private reorderTagItems(container: Element, tagItems: Element[]) {
+		// Appending an existing child moves it, so this re-adds in sorted order
 		tagItems.forEach(item => {
-			if ((item as HTMLElement).style.display !== 'none') {
-				tagsList.appendChild(item)
-			}
+			container.appendChild(item)
 		})
 	}
 }
@@ -995,7 +1670,7 @@ class TagAddingModal extends Modal {
 		new PluginSettings(this.contentEl)
 			.setName('Tag name')
 			.addText(text => text
-				.setPlaceholder('E.g. , landscape, character')
+				.setPlaceholder('E.g. , landscape, anatomy/hands')
 				.setValue(this.tagName)
 				.onChange(value => this.tagName = value))
 		// Action buttons
@@ -1047,54 +1722,152 @@ class TagAddingModal extends Modal {
 
 class NoteAddingModal extends Modal {
 	selectedTags: Set<string> = new Set()
+	selectedBoards: Set<string> = new Set()
 	allTags: string[]
+	image: TFile
 	imageName: string
 	defaultFolder: string
 	author: string = ''
 	noteContent: string = ''
 	plugins: ImageTagPlugin
-
-	constructor(app: App, plugin: ImageTagPlugin, imageName: string, allTags: string[], defaultFolder: string) {
+	existingNote: TFile | null = null
+	suggestedTags: string[] = []
+	palette: string[] = []
+	duplicateOf: ImageNote | null = null
+	tagStats: TagStats | null = null
+	tagSearch: TagSearch
+	// Large tag lists start collapsed; the search field is the quicker way in
+	browseOpen: boolean
+
+	constructor(app: App, plugin: ImageTagPlugin, image: TFile, allTags: string[], defaultFolder: string) {
 		super(app)
-		this.imageName = imageName
+		this.image = image
+		this.imageName = image.name
 		this.allTags = allTags
 		this.defaultFolder = defaultFolder
 		this.plugins = plugin
+		this.browseOpen = allTags.length <= 40
+	}
+
+	// Pre-populate the modal from a note created earlier for the same image
+	async loadExistingNote(file: TFile) {
+		this.existingNote = file
+
+		const keys = this.plugins.settings.frontmatterKeys
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter
+		normalizeTags(frontmatter?.[keys.tags]).forEach(tag => this.selectedTags.add(this.plugins.resolveAlias(tag)))
+
+		const author: unknown = frontmatter?.[keys.author]
+		this.author = typeof author === 'string' ? author : ''
+		this.selectedBoards = new Set(readBoards(frontmatter?.[keys.boards]))
+
+		const content = await this.app.vault.cachedRead(file)
+		this.noteContent = extractNotesSection(content)
+	}
+
+	// Selected tags with aliases replaced by their canonical tag
+	getCanonicalTags(): string[] {
+		return [...new Set(Array.from(this.selectedTags).map(tag => this.plugins.resolveAlias(tag)))]
+	}
+
+	// Add a tag typed into the search field to the tag list
+	async createTag(input: string): Promise<string | null> {
+		const tag = this.plugins.resolveAlias(cleanTag(input))
+		if (!tag) return null
+
+		if (await this.plugins.addNewTag(tag)) new Notice(`Added tag: ${tag}`)
+		if (!this.allTags.includes(tag)) this.allTags = [...this.allTags, tag]
+		return tag
+	}
+
+	renderTagArea(container: HTMLElement) {
+		container.empty()
+
+		// Display all tags as clickable buttons, keeping tags of an existing note visible
+		const browse = container.createEl('details', { cls: 'ImageTag-tag-browse' })
+		browse.open = this.browseOpen
+		browse.createEl('summary', { text: `Browse all tags (${this.allTags.length})` })
+		browse.addEventListener('toggle', () => this.browseOpen = browse.open)
+
+		const displayTags = [...this.allTags, ...Array.from(this.selectedTags).filter(tag => !this.allTags.includes(tag))]
+		renderTagPicker(browse, displayTags, this.selectedTags, () => {
+			this.renderTagArea(container)
+			this.tagSearch.refresh()
+		}, this.plugins.settings.tagCategories)
+
+		// Tags that go with the current selection, and the ones used last
+		if (this.tagStats) {
+			this.renderSuggestionRow(container, 'Suggested:', suggestTags(this.tagStats, this.getCanonicalSelection()))
+			this.renderSuggestionRow(container, 'Recent:', this.tagStats.recent)
+		}
+
+		// Keywords embedded in the image file
+		this.renderSuggestionRow(container, 'Embedded keywords:', this.suggestedTags)
+	}
+
+	private getCanonicalSelection(): Set<string> {
+		return new Set(this.getCanonicalTags())
+	}
+
+	// A row of one-click tags; picking one moves it into the selection
+	private renderSuggestionRow(container: HTMLElement, label: string, tags: string[]) {
+		const selected = this.getCanonicalSelection()
+		const suggestions = tags.filter(tag => !this.selectedTags.has(tag) && !selected.has(tag))
+		if (suggestions.length === 0) return
+
+		const suggestionRow = container.createDiv('ImageTag-suggested-tags')
+		suggestionRow.createSpan({ text: label, cls: 'ImageTag-suggested-label' })
+		suggestions.forEach(tag => {
+			const btn = suggestionRow.createEl('button', { text: tag, cls: 'ImageTag-tag-btn' })
+			btn.addEventListener('click', () => {
+				this.selectedTags.add(tag)
+				this.renderTagArea(container)
+				this.tagSearch.refresh()
+			})
+		})
 	}
 
 	onOpen() {
 		const fileName = this.imageName.split('/').pop() || this.imageName
-		this.titleEl.setText(`Tag: ${fileName}`)
+		this.titleEl.setText(this.existingNote ? `Edit tags: ${fileName}` : `Tag: ${fileName}`)
+
+		if (this.duplicateOf) {
+			const duplicateNote = this.duplicateOf.file
+			const warning = this.contentEl.createDiv('ImageTag-duplicate-warning')
+			warning.createSpan({ text: `This image looks like a duplicate of ${this.duplicateOf.image}, which is already tagged.` })
+			const openBtn = warning.createEl('button', { text: 'Open its note' })
+			openBtn.addEventListener('click', () => {
+				this.app.workspace.getLeaf(true).openFile(duplicateNote).catch(error => {
+					console.error(error)
+				})
+				this.close()
+			})
+		}
+
+		if (this.palette.length > 0) {
+			renderSwatches(this.contentEl, this.palette)
+		}
 
 		// Tag selection area
 		this.contentEl.createEl('p', {
-			text: 'Click tags to select (selected tags will be highlighted):',
+			text: 'Type to search tags, use the arrow keys and enter to pick one, or click tags below:',
 			cls: 'tag-instruction'
 		})
 
-		const tagsContainer = this.contentEl.createDiv('ImageTag-tags-container')
-
-		// Display all tags as clickable buttons
-		this.allTags.forEach(tag => {
-			const btn = tagsContainer.createEl('button', {
-				text: tag,
-				cls: 'ImageTag-tag-btn'
-			})
-
-			if (this.selectedTags.has(tag)) {
-				btn.addClass('ImageTag-tag-selected')
-			}
-
-			btn.addEventListener('click', () => {
-				if (this.selectedTags.has(tag)) {
-					this.selectedTags.delete(tag)
-					btn.removeClass('ImageTag-tag-selected')
-				} else {
-					this.selectedTags.add(tag)
-					btn.addClass('ImageTag-tag-selected')
-				}
-			})
+		const tagArea = this.contentEl.createDiv()
+		this.tagSearch = new TagSearch(tagArea.createDiv(), {
+			getTags: () => this.allTags,
+			selectedTags: this.selectedTags,
+			getCount: tag => this.plugins.tagIndex.getCount(tag),
+			onChange: () => this.renderTagArea(browseArea),
+			onCreate: tag => this.createTag(tag)
 		})
+		const browseArea = tagArea.createDiv()
+		this.renderTagArea(browseArea)
+		this.tagSearch.inputEl.focus()
+
+		// Boards, kept apart from the descriptive tags
+		this.renderBoardArea(this.contentEl.createDiv('ImageTag-board-area'))
 
 		// Author input
 		new PluginSettings(this.contentEl)
@@ -1119,65 +1892,76 @@ class NoteAddingModal extends Modal {
 
 		new PluginSettings(btnContainer)
 			.addButton(btn => btn
-				.setButtonText('Create note')
+				.setButtonText(this.existingNote ? 'Update note' : 'Create note')
 				.setCta()
-				.onClick(() => this.createNote()))
+				.onClick(() => this.existingNote ? this.updateNote(this.existingNote) : this.createNote()))
 			.addButton(btn => btn
 				.setButtonText('Cancel')
 				.onClick(() => this.close()))
 	}
 
-	async createNote() {
-		const tagsArray = Array.from(this.selectedTags)
-
-		// Create frontmatter
-		const frontmatter = `---
-image: "${this.imageName}"
-author: "${this.author}"
-tags: [${tagsArray.map(t => `"${t}"`).join(', ')}]
-created: "${new Date().toISOString().split('T')[0]}"
----`
+	renderBoardArea(container: HTMLElement) {
+		container.empty()
+		container.createSpan({ text: 'Boards:', cls: 'ImageTag-suggested-label' })
 
-		// Create note body
-		const body = `![[${this.imageName}|600]]
+		// Boards the note is on but settings no longer list stay visible so they aren't dropped silently
+		const boards = [...this.plugins.settings.boards, ...Array.from(this.selectedBoards).filter(board => !this.plugins.settings.boards.includes(board))]
+		boards.forEach(board => {
+			const btn = container.createEl('button', { text: board, cls: 'ImageTag-tag-btn' })
+			if (this.selectedBoards.has(board)) btn.addClass('ImageTag-tag-selected')
+			btn.addEventListener('click', () => {
+				if (this.selectedBoards.has(board)) {
+					this.selectedBoards.delete(board)
+				} else {
+					this.selectedBoards.add(board)
+				}
+				this.renderBoardArea(container)
+			})
+		})
 
-${this.noteContent ? `## Notes\n\n${this.noteContent}` : ''}`
+		const input = container.createEl('input', {
+			type: 'text',
+			placeholder: 'New board...',
+			cls: 'ImageTag-board-input'
+		})
+		input.addEventListener('keydown', (evt) => {
+			if (evt.key !== 'Enter') return
+			evt.preventDefault()
+			createBoard(this.plugins, input.value).then(board => {
+				if (!board) return
+				this.selectedBoards.add(board)
+				this.renderBoardArea(container)
+			}).catch(error => {
+				console.error('Failed to create board:', error)
+			})
+		})
+	}
 
-		const fullContent = `${frontmatter}\n\n${body}`
+	// Category constraints are checked before anything is written; the modal stays open to fix the selection
+	private checkCategories(tags: string[]): boolean {
+		const problems = validateCategories(tags, this.plugins.settings.tagCategories)
+		if (problems.length > 0) new Notice(problems.join('\n'))
+		return problems.length === 0
+	}
 
-		// Determine folder path
-		const folderPath = this.defaultFolder
-		const safeImageName = this.imageName.replace(/[<>:"/\\|?*]/g, '_')
-		const baseName = safeImageName.replace(/\.[^/.]+$/, '')
-		const fileName = `${baseName}.md`
-		const fullPath = folderPath ? `${folderPath}/${fileName}` : fileName
+	async createNote() {
+		if (!this.checkCategories(this.getCanonicalTags())) return
 
 		try {
-			// Ensure folder exists
-			if (folderPath) {
-				// @ts-ignore - internal API
-				const folderExists = await this.app.vault.adapter.exists(folderPath)
-				if (!folderExists) {
-					// @ts-ignore
-					await this.app.vault.adapter.mkdir(folderPath)
-				}
-			}
-
-			// Create the note
-			await this.app.vault.create(fullPath, fullContent)
+			const file = await this.plugins.createImageNote(this.image, {
+				tags: this.getCanonicalTags(),
+				author: this.author,
+				notes: this.noteContent,
+				boards: Array.from(this.selectedBoards)
+			})
 
 			// Open the note if setting is enabled
-			//@ts-ignore - Point to plugin itself
 			if (this.plugins.settings.autoOpenModal) {
 				const leaf = this.app.workspace.getLeaf()
-				const file = this.app.vault.getAbstractFileByPath(fullPath)
-				if (file) {
-					// @ts-ignore
-					await leaf.openFile(file)
-				}
+				await leaf.openFile(file)
 			}
 
-			new Notice(`Created: ${fileName}`)
+			new Notice(`Created: ${file.name}`)
 		} catch (error) {
 			console.error('Error creating note:', error)
 			new Notice('Failed to create note')
@@ -1186,6 +1970,32 @@ ${this.noteContent ? `## Notes\n\n${this.noteContent}` : ''}`
 		this.close()
 	}
 
+	// Write the modal state back into an existing note instead of recreating it
+	async updateNote(file: TFile) {
+		const tagsArray = this.getCanonicalTags()
+		const keys = this.plugins.settings.frontmatterKeys
+		if (!this.checkCategories(tagsArray)) return
+
+		try {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+				// Older notes stored only the image name; upgrade them to the full path
+				frontmatter[keys.image] = this.image.path
+				frontmatter[keys.author] = this.author
+				frontmatter[keys.tags] = tagsArray
+			})
+			await updateNoteBoards(this.app, file, keys, () => Array.from(this.selectedBoards))
+
+			await this.app.vault.process(file, (data) => replaceNotesSection(data, this.noteContent))
+
+			new Notice(`Updated: ${file.name}`)
+		} catch (error) {
+			console.error('Error updating note:', error)
+			new Notice('Failed to update note')
+		}
+
+		this.close()
+	}
+
 	onClose() {
 		const { contentEl } = this
 		contentEl.empty()
@@ -1272,6 +2082,135 @@ class EditModal extends Modal {
 	}
 }
 
+class TagAliasModal extends Modal {
+	private aliases: string
+	private onConfirm: (aliases: string[]) => void
+
+	constructor(app: App, tag: string, aliases: string[], onConfirm: (aliases: string[]) => void) {
+		super(app)
+
+		this.aliases = aliases.join(', ')
+		this.onConfirm = onConfirm
+
+		this.titleEl.setText(`Aliases of ${tag}`)
+
+		new PluginSettings(this.contentEl)
+			.setName('Aliases')
+			.setDesc(`Comma-separated tags that mean the same as ${tag}. They are resolved to ${tag} when tagging and searching.`)
+			.addText(text => text
+				.setPlaceholder('E.g. , bw, b&w')
+				.setValue(this.aliases)
+				.onChange(val => {
+					this.aliases = val
+				})
+			)
+
+		const btnContainer = this.contentEl.createDiv({ cls: 'modal-button-container' })
+
+		const cancelBtn = btnContainer.createEl('button', { text: 'Cancel' })
+		cancelBtn.addEventListener('click', () => this.close())
+
+		const confirmBtn = btnContainer.createEl('button', {
+			text: 'Save',
+			cls: 'mod-cta'
+		})
+		confirmBtn.addEventListener('click', () => this.confirm())
+
+		this.scope.register([], 'Enter', (evt) => {
+			evt.preventDefault()
+			this.confirm()
+		})
+	}
+
+	private confirm() {
+		this.onConfirm(this.aliases.split(',').map(alias => alias.trim()).filter(Boolean))
+		this.close()
+	}
+
+	onOpen(): void {
+		void super.onOpen()
+		this.contentEl.querySelector('input')?.focus()
+	}
+}
+
+class MergeTagsModal extends Modal {
+	private target: string
+	private onConfirm: (target: string) => void
+
+	constructor(app: App, tags: string[], onConfirm: (target: string) => void) {
+		super(app)
+
+		this.target = tags[0] ?? ''
+		this.onConfirm = onConfirm
+
+		this.titleEl.setText(`Merge ${tags.length} tag${tags.length === 1 ? '' : 's'}`)
+		this.contentEl.createEl('p', { text: tags.join(', '), cls: 'tag-instruction' })
+
+		new PluginSettings(this.contentEl)
+			.setName('Merge into')
+			.setDesc('Pick one of the selected tags, or type a new one. Every selected tag is rewritten to it in all files.')
+			.addDropdown(dropdown => {
+				dropdown.addOptions(Object.fromEntries(tags.map(tag => [tag, tag])))
+				dropdown.setValue(this.target)
+				dropdown.onChange(value => {
+					this.target = value
+					textInput.setValue(value)
+				})
+			})
+
+		let textInput: TextComponent
+		new PluginSettings(this.contentEl)
+			.setName('Target tag')
+			.addText(text => {
+				textInput = text
+				text.setValue(this.target)
+					.onChange(value => this.target = value)
+			})
+
+		const btnContainer = this.contentEl.createDiv({ cls: 'modal-button-container' })
+
+		const cancelBtn = btnContainer.createEl('button', { text: 'Cancel' })
+		cancelBtn.addEventListener('click', () => this.close())
+
+		const confirmBtn = btnContainer.createEl('button', {
+			text: 'Merge',
+			cls: 'mod-cta'
+		})
+		confirmBtn.addEventListener('click', () => {
+			if (!this.target.trim()) return
+			this.onConfirm(this.target)
+			this.close()
+		})
+	}
+}
+
+// Per-file outcome of a merge
+class MergeReportModal extends Modal {
+	constructor(app: App, sources: string[], target: string, results: TagRewriteResult[]) {
+		super(app)
+
+		const updated = results.filter(result => result.changed && !result.error)
+		const unchanged = results.filter(result => !result.changed && !result.error)
+		const failed = results.filter(result => result.error)
+
+		this.titleEl.setText(`Merged into ${target}`)
+		this.contentEl.createEl('p', {
+			text: `${sources.join(', ')} → ${target}: ${updated.length} file${updated.length === 1 ? '' : 's'} updated, ${unchanged.length} unchanged, ${failed.length} failed.`
+		})
+
+		const list = this.contentEl.createEl('ul', { cls: 'tag-merge-report' })
+		;[...failed, ...updated, ...unchanged].forEach(result => {
+			const status = result.error ? `failed: ${result.error}` : result.changed ? 'updated' : 'no change'
+			const item = list.createEl('li', { text: `${result.file.path} — ${status}` })
+			if (result.error) item.addClass('mod-warning')
+		})
+
+		const btnContainer = this.contentEl.createDiv({ cls: 'modal-button-container' })
+		const closeBtn = btnContainer.createEl('button', { text: 'Close', cls: 'mod-cta' })
+		closeBtn.addEventListener('click', () => this.close())
+	}
+}
+
 class ConfirmationModal extends Modal {
 	private resolvePromise: (value: boolean) => void
 	public promise: Promise<boolean>
@@ -1346,6 +2285,19 @@ class ImageTagSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.defaultFolder = value
 					await this.plugin.saveSettings()
+					if (this.plugin.settings.tagScope === 'library') this.plugin.requestTagScopeRefresh()
+				})
+			)
+
+		new PluginSettings(containerEl)
+			.setName('Note name')
+			.setDesc('File name of new notes. Placeholders: {{name}} and {{folder}} of the image, {{date}} or {{date:YYYY-MM-DD}}, {{tag}} (the first tag), {{author}} and {{counter}}. Existing notes keep their names.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_NOTE_NAME)
+				.setValue(this.plugin.settings.noteNamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.noteNamePattern = value
+					await this.plugin.saveSettings()
 				})
 			)
 
@@ -1361,6 +2313,281 @@ class ImageTagSettingTab extends PluginSettingTab {
 				})
 			)
 
+		// Inbox favorites
+		new PluginSettings(containerEl)
+			.setName('Inbox favorite tags')
+			.setDesc('Comma-separated tags toggled with number keys 1-9 in the image inbox. Leave empty to use the most used tags.')
+			.addText(text => text
+				.setPlaceholder('E.g. , character, landscape')
+				.setValue(this.plugin.settings.favoriteTags.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.favoriteTags = value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)
+					await this.plugin.saveSettings()
+				})
+			)
+
+		// Note folders section
+		new PluginSettings(containerEl).setName("Note folders").setHeading()
+
+		this.plugin.settings.noteRoutes.forEach((route, index) => {
+			new PluginSettings(containerEl)
+				.setName(describeRoute(route))
+				.addExtraButton(btn => btn
+					.setIcon('arrow-up')
+					.setTooltip('Check earlier')
+					.setDisabled(index === 0)
+					.onClick(() => this.moveRoute(index, -1))
+				)
+				.addExtraButton(btn => btn
+					.setIcon('pencil')
+					.setTooltip('Edit route')
+					.onClick(() => {
+						new NoteRouteModal(this.app, route, (edited) => this.saveRoute(index, edited)).open()
+					})
+				)
+				.addExtraButton(btn => btn
+					.setIcon('trash')
+					.setTooltip('Delete route')
+					.onClick(async () => {
+						this.plugin.settings.noteRoutes = this.plugin.settings.noteRoutes.filter((_, i) => i !== index)
+						await this.plugin.saveSettings()
+						if (this.plugin.settings.tagScope === 'library') this.plugin.requestTagScopeRefresh()
+						this.display()
+					})
+				)
+		})
+
+		new PluginSettings(containerEl)
+			.setDesc('Routes pick the folder of a new note from its tags, its author or the folder of the image. The first matching route wins; notes matching none go to the default folder.')
+			.addButton(btn => btn
+				.setButtonText('Add route')
+				.onClick(() => {
+					new NoteRouteModal(this.app, createEmptyRoute(), (route) => this.saveRoute(-1, route)).open()
+				})
+			)
+
+		// Image sync section
+		new PluginSettings(containerEl).setName("Image sync").setHeading()
+
+		new PluginSettings(containerEl)
+			.setName('Rename notes with images')
+			.setDesc('When an image is renamed, rename its note too if the note was named after the image')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.renameNotesWithImages)
+				.onChange(async (value) => {
+					this.plugin.settings.renameNotesWithImages = value
+					await this.plugin.saveSettings()
+				})
+			)
+
+		new PluginSettings(containerEl)
+			.setName('When an image is deleted')
+			.setDesc('What to do with the note of a deleted image')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					ask: 'Ask every time',
+					archive: 'Move note to archive folder',
+					delete: 'Delete note',
+					keep: 'Keep note'
+				})
+				.setValue(this.plugin.settings.orphanAction)
+				.onChange(async (value) => {
+					this.plugin.settings.orphanAction = value as OrphanAction
+					await this.plugin.saveSettings()
+				})
+			)
+
+		new PluginSettings(containerEl)
+			.setName('Archive folder')
+			.setDesc('Where archived notes of deleted images are moved')
+			.addText(text => text
+				.setPlaceholder('Image library/archive')
+				.setValue(this.plugin.settings.archiveFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveFolder = value
+					await this.plugin.saveSettings()
+				})
+			)
+
+		// Note template section
+		new PluginSettings(containerEl).setName("Note template").setHeading()
+
+		new PluginSettings(containerEl)
+			.setName('Template note')
+			.setDesc('Path of a note whose content is used as the template. Takes precedence over the template below.')
+			.addText(text => text
+				.setPlaceholder('Templates/image note')
+				.setValue(this.plugin.settings.noteTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplatePath = value.trim()
+					await this.plugin.saveSettings()
+				})
+			)
+
+		const templateSetting = new PluginSettings(containerEl)
+			.setName('Template')
+			.setDesc('Leave empty to use the default layout. Placeholders: {{image}}, {{name}}, {{path}}, {{folder}}, {{tags}}, {{author}}, {{notes}}, {{date}}, {{date:YYYY-MM-DD}}, {{width}}, {{height}}.')
+			.addTextArea(text => text
+				.setPlaceholder(getDefaultTemplate(this.plugin.settings.frontmatterKeys))
+				.setValue(this.plugin.settings.noteTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplate = value
+					await this.plugin.saveSettings()
+				})
+			)
+		templateSetting.controlEl.addClass('image-template-setting')
+
+		const keyFields: [keyof FrontmatterKeys, string][] = [
+			['image', 'Image field'],
+			['author', 'Author field'],
+			['tags', 'Tags field'],
+			['created', 'Created field'],
+			['boards', 'Boards field'],
+		]
+		keyFields.forEach(([key, name]) => {
+			new PluginSettings(containerEl)
+				.setName(name)
+				.setDesc(`Frontmatter key used for the ${key} of image notes`)
+				.addText(text => text
+					.setPlaceholder(DEFAULT_SETTINGS.frontmatterKeys[key])
+					.setValue(this.plugin.settings.frontmatterKeys[key])
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterKeys = {
+							...this.plugin.settings.frontmatterKeys,
+							[key]: value.trim() || DEFAULT_SETTINGS.frontmatterKeys[key]
+						}
+						await this.plugin.saveSettings()
+						if (key === 'image' && this.plugin.settings.tagScope === 'image-notes') this.plugin.requestTagScopeRefresh()
+						// The tag index reads the tags field too
+						if (key === 'tags') this.plugin.requestTagScopeRefresh()
+					})
+				)
+		})
+
+		new PluginSettings(containerEl)
+			.setName('Read image metadata')
+			.setDesc('Add dimensions, capture date, camera, copyright and keywords from the image file to new notes, and use the embedded artist as author')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.extractImageMetadata)
+				.onChange(async (value) => {
+					this.plugin.settings.extractImageMetadata = value
+					await this.plugin.saveSettings()
+				})
+			)
+
+		new PluginSettings(containerEl)
+			.setName('Extract color palettes')
+			.setDesc('Store the dominant colors of new images in their notes, used by the find images by color command')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.extractPalette)
+				.onChange(async (value) => {
+					this.plugin.settings.extractPalette = value
+					await this.plugin.saveSettings()
+				})
+			)
+
+		new PluginSettings(containerEl)
+			.setName('Duplicate sensitivity')
+			.setDesc('How many of the 64 hash bits may differ for two images to count as duplicates. Higher values catch more edited copies, but also more false matches.')
+			.addSlider(slider => slider
+				.setLimits(0, 16, 1)
+				.setValue(this.plugin.settings.duplicateThreshold)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.duplicateThreshold = value
+					await this.plugin.saveSettings()
+				})
+			)
+
+		// Auto-tagging section
+		new PluginSettings(containerEl).setName("Auto-tagging").setHeading()
+
+		new PluginSettings(containerEl)
+			.setName('Watched folders')
+			.setDesc('Comma-separated folders where new images are tagged automatically by the rules below. Leave empty to only pre-select rule tags in the tag modal.')
+			.addText(text => text
+				.setPlaceholder('E.g. , downloads, inbox')
+				.setValue(this.plugin.settings.autoTagWatchedFolders.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.autoTagWatchedFolders = value.split(',').map(folder => folder.trim()).filter(Boolean)
+					await this.plugin.saveSettings()
+				})
+			)
+
+		this.plugin.settings.autoTagRules.forEach((rule, index) => {
+			new PluginSettings(containerEl)
+				.setName(rule.name)
+				.setDesc(describeRule(rule))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						await this.saveRule(index, { ...rule, enabled: value })
+					})
+				)
+				.addExtraButton(btn => btn
+					.setIcon('pencil')
+					.setTooltip('Edit rule')
+					.onClick(() => {
+						new AutoTagRuleModal(this.app, rule, (edited) => this.saveRule(index, edited)).open()
+					})
+				)
+				.addExtraButton(btn => btn
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						this.plugin.settings.autoTagRules = this.plugin.settings.autoTagRules.filter((_, i) => i !== index)
+						await this.plugin.saveSettings()
+						this.display()
+					})
+				)
+		})
+
+		new PluginSettings(containerEl)
+			.addButton(btn => btn
+				.setButtonText('Add rule')
+				.onClick(() => {
+					new AutoTagRuleModal(this.app, createEmptyRule(), (rule) => this.saveRule(-1, rule)).open()
+				})
+			)
+
+		// Tag categories section
+		new PluginSettings(containerEl).setName("Tag categories").setHeading()
+
+		this.plugin.settings.tagCategories.forEach((category, index) => {
+			const constraint = category.constraint === 'any' ? '' : ` · ${CONSTRAINT_LABELS[category.constraint].toLowerCase()}`
+			const row = new PluginSettings(containerEl)
+				.setName(category.name)
+				.setDesc(`${category.tags.length > 0 ? category.tags.join(', ') : 'No tags'}${constraint}`)
+				.addExtraButton(btn => btn
+					.setIcon('pencil')
+					.setTooltip('Edit category')
+					.onClick(() => {
+						new TagCategoryModal(this.app, category, (edited) => this.saveCategory(index, edited)).open()
+					})
+				)
+				.addExtraButton(btn => btn
+					.setIcon('trash')
+					.setTooltip('Delete category')
+					.onClick(async () => {
+						this.plugin.settings.tagCategories = this.plugin.settings.tagCategories.filter((_, i) => i !== index)
+						await this.plugin.saveSettings()
+						this.plugin.refreshTagManager()
+						this.display()
+					})
+				)
+			applyCategoryStyle(row.nameEl, category)
+		})
+
+		new PluginSettings(containerEl)
+			.setDesc('Group tags into sections with their own color and icon, optionally requiring one tag per image')
+			.addButton(btn => btn
+				.setButtonText('Add category')
+				.onClick(() => {
+					new TagCategoryModal(this.app, createEmptyCategory(), (category) => this.saveCategory(-1, category)).open()
+				})
+			)
+
 		// Tag manager section
 		new PluginSettings(containerEl).setName("Tag management").setHeading()
 
@@ -1378,20 +2605,89 @@ class ImageTagSettingTab extends PluginSettingTab {
 						new Notice('Failed to open tag manager')
 					})
 				}))
+
+		// Tag scope
+		new PluginSettings(containerEl)
+			.setName('Tag scope')
+			.setDesc('Which notes tag counts, scanning, rename, delete and merge apply to. Notes outside the scope are never edited.')
+			.addDropdown(dropdown => dropdown
+				.addOptions(TAG_SCOPE_LABELS)
+				.setValue(this.plugin.settings.tagScope)
+				.onChange(async (value) => {
+					this.plugin.settings.tagScope = value as TagScope
+					await this.plugin.saveSettings()
+					this.plugin.refreshTagScope()
+					// Show or hide the custom folder list
+					this.display()
+				}))
+
+		if (this.plugin.settings.tagScope === 'custom') {
+			new PluginSettings(containerEl)
+				.setName('Scope folders')
+				.setDesc('One folder or glob per line, e.g. Art/References or Projects/**/images')
+				.addTextArea(text => text
+					.setPlaceholder('Image library')
+					.setValue(this.plugin.settings.tagScopePaths.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.tagScopePaths = value.split('\n').map(path => path.trim()).filter(Boolean)
+						await this.plugin.saveSettings()
+						this.plugin.requestTagScopeRefresh()
+					}))
+		}
+
+		// Alias normalization
+		new PluginSettings(containerEl)
+			.setName('Normalize tag aliases')
+			.setDesc('Rewrite aliases used in your notes to their canonical tag. Aliases are edited from the tag manager.')
+			.addButton(btn => btn
+				.setButtonText('Normalize vault')
+				.onClick(() => {
+					this.plugin.runAliasNormalization().catch(error => {
+						console.error('Failed to normalize tag aliases:', error)
+						new Notice('Failed to normalize tag aliases')
+					})
+				}))
+
+		// Undo journal for bulk tag edits
+		new PluginSettings(containerEl)
+			.setName('Undo history')
+			.setDesc('How many vault-wide renames, deletions and merges can be undone. Their original file contents are kept in the plugin folder; 0 turns the history off.')
+			.addSlider(slider => slider
+				.setLimits(0, 50, 1)
+				.setValue(this.plugin.settings.undoJournalSize)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.undoJournalSize = value
+					await this.plugin.saveSettings()
+				}))
+			.addButton(btn => btn
+				.setButtonText('Clear history')
+				.onClick(async () => {
+					await this.plugin.tagJournal.clear()
+					new Notice('Cleared the undo history')
+				}))
 		// Tag scanning section
 		new PluginSettings(containerEl)
 			.setName('Scan vault for tags')
-			.setDesc('Find all existing #tags in your vault and add them to the tag manager')
+			.setDesc('Find the tags used in notes inside the tag scope and choose which to add to the tag manager')
 			.addButton(btn => btn
 				.setButtonText('Scan now')
+				.onClick(() => reviewVaultTags(this.plugin)))
+
+		// Ignore list of the scan review
+		const ignoredCount = this.plugin.settings.ignoredTags.length
+		new PluginSettings(containerEl)
+			.setName('Ignored tags')
+			.setDesc(ignoredCount > 0
+				? `${ignoredCount} tag${ignoredCount === 1 ? '' : 's'} skipped by vault scans: ${this.plugin.settings.ignoredTags.join(', ')}`
+				: 'Tags you ignore while reviewing a scan are listed here and not offered again')
+			.addButton(btn => btn
+				.setButtonText('Clear')
+				.setDisabled(ignoredCount === 0)
 				.onClick(async () => {
-					const modal = new ConfirmationModal(this.app, 'This may take a few moments.', 'Scan your entire vault for existing tags? ')
-					modal.open()
-					let confirmed = false
-					confirmed = await modal.promise
-					if (confirmed) {
-						await this.plugin.scanForExistingTags()
-					}
+					this.plugin.settings.ignoredTags = []
+					await this.plugin.saveSettings()
+					this.display()
 				}))
 		// Reset to defaults
 		new PluginSettings(containerEl)
@@ -1410,10 +2706,72 @@ class ImageTagSettingTab extends PluginSettingTab {
 					const confirm = await this.plugin.showCriticalWarning(title, warninfo, " I'm sure about what am I doing")
 					if (confirm) {
 						this.plugin.settings = Object.assign({}, DEFAULT_SETTINGS)
+						this.plugin.settings.tags = []
+						this.plugin.settings.frontmatterKeys = Object.assign({}, DEFAULT_SETTINGS.frontmatterKeys)
+						this.plugin.settings.imageHashes = {}
+						this.plugin.settings.tagAliases = {}
 						await this.plugin.saveSettings()
+						this.plugin.refreshTagScope()
 						this.display() // Refresh
 						new Notice('Settings reset to defaults')
 					}
 				}))
 	}
+
+	// Replace the rule at `index`, or append it when the index is -1
+	private async saveRule(index: number, rule: AutoTagRule) {
+		const rules = [...this.plugin.settings.autoTagRules]
+		if (index === -1) {
+			rules.push(rule)
+		} else {
+			rules[index] = rule
+		}
+
+		this.plugin.settings.autoTagRules = rules
+		await this.plugin.saveSettings()
+		this.display()
+	}
+
+	// Replace the route at `index`, or append it when the index is -1
+	private async saveRoute(index: number, route: NoteRoute) {
+		const routes = [...this.plugin.settings.noteRoutes]
+		if (index === -1) {
+			routes.push(route)
+		} else {
+			routes[index] = route
+		}
+
+		this.plugin.settings.noteRoutes = routes
+		await this.plugin.saveSettings()
+		// Route folders are part of the image library
+		if (this.plugin.settings.tagScope === 'library') this.plugin.requestTagScopeRefresh()
+		this.display()
+	}
+
+	// Routes are checked in order, so moving one up gives it priority
+	private async moveRoute(index: number, offset: number) {
+		const routes = [...this.plugin.settings.noteRoutes]
+		const [route] = routes.splice(index, 1)
+		if (!route) return
+		routes.splice(Math.max(0, index + offset), 0, route)
+
+		this.plugin.settings.noteRoutes = routes
+		await this.plugin.saveSettings()
+		this.display()
+	}
+
+	// Replace the category at `index`, or append it when the index is -1
+	private async saveCategory(index: number, category: TagCategory) {
+		const categories = [...this.plugin.settings.tagCategories]
+		if (index === -1) {
+			categories.push(category)
+		} else {
+			categories[index] = category
+		}
+
+		this.plugin.settings.tagCategories = categories
+		await this.plugin.saveSettings()
+		this.plugin.refreshTagManager()
+		this.display()
+	}
 }
@@ -0,0 +1,197 @@
+import { App, Modal, Notice, Setting as PluginSettings, TFile, moment, normalizePath } from 'obsidian'
+import { getImageNotePath } from './library'
+import { matchesScopePattern } from './scope'
+import { ImageTagSettings, NoteRoute, RouteMatch } from './settings'
+import { cleanTag, isTagOrDescendant } from './tags'
+
+// ==================== NOTE NAMES AND FOLDERS ====================
+// Placeholders: {{name}} {{folder}} {{date}} / {{date:FORMAT}} {{tag}} {{author}} {{counter}}
+// The name pattern gives a new note its file name; routes pick its folder, falling back to the default folder.
+// Route folders use the same placeholders, where a `/` in a value (a nested tag, a date format) nests folders.
+
+export const DEFAULT_NOTE_NAME = '{{name}}'
+
+export const ROUTE_MATCH_LABELS: Record<RouteMatch, string> = {
+	'tag': 'Has tag',
+	'author': 'Author is',
+	'source-folder': 'Image is in folder'
+}
+
+export interface NotePathContext {
+	image: TFile
+	tags: string[]
+	author: string
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g
+const COUNTER = /\{\{\s*counter\s*\}\}/i
+const UNSAFE_CHARS = /[<>:"/\\|?*]/g
+
+export function createEmptyRoute(): NoteRoute {
+	return {
+		match: 'tag',
+		value: '',
+		folder: ''
+	}
+}
+
+export function describeRoute(route: NoteRoute): string {
+	return `${ROUTE_MATCH_LABELS[route.match]} "${route.value}" → ${route.folder || '/'}`
+}
+
+export function matchesRoute(route: NoteRoute, context: NotePathContext): boolean {
+	const value = route.value.trim()
+	if (!value) return false
+
+	switch (route.match) {
+		case 'tag': {
+			// A route for `artist` also takes notes tagged `artist/someone`
+			const tag = cleanTag(value)
+			return context.tags.some(t => isTagOrDescendant(t, tag))
+		}
+		case 'author':
+			return context.author.trim().toLowerCase() === value.toLowerCase()
+		case 'source-folder':
+			return matchesScopePattern(context.image.path, value)
+	}
+}
+
+function resolvePlaceholder(name: string, arg: string | undefined, context: NotePathContext, counter?: number): string {
+	const { image } = context
+
+	switch (name.toLowerCase()) {
+		case 'name': return image.basename
+		case 'folder': return image.parent && !image.parent.isRoot() ? image.parent.name : ''
+		case 'date': return moment().format(arg?.trim() || 'YYYY-MM-DD')
+		case 'tag': return context.tags[0] ?? ''
+		case 'author': return context.author.trim()
+		case 'counter': return counter === undefined ? '' : String(counter)
+		default: return ''
+	}
+}
+
+// File name without extension; empty placeholders collapse, and an empty result falls back to the image name
+export function renderNoteName(pattern: string, context: NotePathContext, counter?: number): string {
+	const name = pattern
+		.replace(PLACEHOLDER, (_, placeholder: string, arg?: string) => resolvePlaceholder(placeholder, arg, context, counter))
+		.replace(UNSAFE_CHARS, '_')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/^[\s.]+|[\s.]+$/g, '')
+
+	return name || context.image.basename
+}
+
+// Folder path with empty segments dropped, so `Artists/{{author}}` without an author is just `Artists`
+export function renderNoteFolder(folder: string, context: NotePathContext): string {
+	const rendered = folder.replace(PLACEHOLDER, (_, placeholder: string, arg?: string) => resolvePlaceholder(placeholder, arg, context))
+	const segments = rendered
+		.split('/')
+		.map(segment => segment.replace(UNSAFE_CHARS, '_').trim())
+		.filter(segment => segment && !/^\.+$/.test(segment))
+
+	return segments.length > 0 ? normalizePath(segments.join('/')) : ''
+}
+
+export function getNoteFolder(settings: ImageTagSettings, context: NotePathContext): string {
+	const route = settings.noteRoutes.find(r => matchesRoute(r, context))
+	return route ? renderNoteFolder(route.folder, context) : settings.defaultFolder.trim()
+}
+
+// Folder and collision-free path of a new note. Patterns with {{counter}} count up from 1;
+// others fall back to the usual ` (<folder>)` and numbered suffixes.
+export function getNotePath(app: App, settings: ImageTagSettings, context: NotePathContext): { folder: string, path: string } {
+	const folder = getNoteFolder(settings, context)
+	const pattern = settings.noteNamePattern.trim() || DEFAULT_NOTE_NAME
+
+	if (!COUNTER.test(pattern)) {
+		return { folder, path: getImageNotePath(app, context.image, folder, renderNoteName(pattern, context)) }
+	}
+
+	const inFolder = (name: string) => normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`)
+	let counter = 1
+	while (app.vault.getAbstractFileByPath(inFolder(renderNoteName(pattern, context, counter)))) {
+		counter++
+	}
+	return { folder, path: inFolder(renderNoteName(pattern, context, counter)) }
+}
+
+// Create a folder and any missing parents
+export async function ensureFolder(app: App, folder: string) {
+	if (!folder || folder === '/') return
+
+	let current = ''
+	for (const segment of normalizePath(folder).split('/')) {
+		current = current ? `${current}/${segment}` : segment
+		if (!app.vault.getAbstractFileByPath(current)) {
+			await app.vault.createFolder(current)
+		}
+	}
+}
+
+// ==================== ROUTE EDITOR MODAL ====================
+export class NoteRouteModal extends Modal {
+	route: NoteRoute
+	onSave: (route: NoteRoute) => void | Promise<void>
+
+	constructor(app: App, route: NoteRoute, onSave: (route: NoteRoute) => void | Promise<void>) {
+		super(app)
+		// Edit a copy so cancelling leaves the saved route untouched
+		this.route = { ...route }
+		this.onSave = onSave
+	}
+
+	onOpen() {
+		const { contentEl, route } = this
+		this.titleEl.setText('Note folder route')
+
+		new PluginSettings(contentEl)
+			.setName('When the note')
+			.addDropdown(dropdown => dropdown
+				.addOptions(ROUTE_MATCH_LABELS)
+				.setValue(route.match)
+				.onChange(value => route.match = value as RouteMatch))
+			.addText(text => text
+				.setPlaceholder('Tag, author or folder')
+				.setValue(route.value)
+				.onChange(value => route.value = value.trim()))
+
+		new PluginSettings(contentEl)
+			.setName('Folder')
+			.setDesc('Where the note is created. Missing folders are created, and placeholders such as {{tag}}, {{author}} or {{date:YYYY}} are filled in.')
+			.addText(text => text
+				.setPlaceholder('Artists/{{author}}')
+				.setValue(route.folder)
+				.onChange(value => route.folder = value.trim()))
+
+		const btnContainer = contentEl.createDiv('ImageTag-btn-container')
+
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => this.save()))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+	}
+
+	private save() {
+		const { route } = this
+
+		if (!route.value) {
+			new Notice('Please enter what the route matches')
+			return
+		}
+
+		Promise.resolve(this.onSave(route)).catch(error => {
+			console.error('Failed to save route:', error)
+		})
+		this.close()
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
@@ -0,0 +1,285 @@
+import { App, Keymap, Modal, Notice, TFile, debounce } from 'obsidian'
+import ImageTagPlugin from './main'
+import { ImageNote, PALETTE_KEY, collectImageNotes, collectLibraryNotes, loadImage, readPalette } from './library'
+
+// ==================== COLOR PALETTES ====================
+// Each image gets a small palette of dominant colors, stored as hex strings in the note's `palette` field.
+// Images are decoded on an offscreen canvas and quantized into a coarse color histogram.
+
+const PALETTE_SIZE = 5
+// Longest side of the downscaled copy that gets sampled
+const SAMPLE_SIZE = 64
+// Colors closer than this (in Lab units) are treated as the same palette entry
+const MERGE_DISTANCE = 12
+
+type Rgb = [number, number, number]
+type Lab = [number, number, number]
+
+export async function extractPalette(app: App, image: TFile): Promise<string[]> {
+	const img = await loadImage(app, image)
+	if (!img || img.naturalWidth === 0 || img.naturalHeight === 0) return []
+
+	const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight))
+	const width = Math.max(1, Math.round(img.naturalWidth * scale))
+	const height = Math.max(1, Math.round(img.naturalHeight * scale))
+
+	const canvas = document.createElement('canvas')
+	canvas.width = width
+	canvas.height = height
+	const context = canvas.getContext('2d', { willReadFrequently: true })
+	if (!context) return []
+
+	context.drawImage(img, 0, 0, width, height)
+	return quantize(context.getImageData(0, 0, width, height).data)
+}
+
+// Bucket pixels by their top 4 bits per channel, then keep the most populated, distinct buckets
+function quantize(pixels: Uint8ClampedArray): string[] {
+	const buckets = new Map<number, { count: number, r: number, g: number, b: number }>()
+
+	for (let i = 0; i + 3 < pixels.length; i += 4) {
+		// Transparent pixels are background, not color
+		if ((pixels[i + 3] ?? 0) < 128) continue
+
+		const r = pixels[i] ?? 0
+		const g = pixels[i + 1] ?? 0
+		const b = pixels[i + 2] ?? 0
+		const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4)
+
+		const bucket = buckets.get(key)
+		if (bucket) {
+			bucket.count++
+			bucket.r += r
+			bucket.g += g
+			bucket.b += b
+		} else {
+			buckets.set(key, { count: 1, r, g, b })
+		}
+	}
+
+	const palette: { rgb: Rgb, lab: Lab }[] = []
+	const sorted = Array.from(buckets.values()).sort((a, b) => b.count - a.count)
+
+	for (const bucket of sorted) {
+		const rgb: Rgb = [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count]
+		const lab = rgbToLab(rgb)
+		if (palette.some(entry => labDistance(entry.lab, lab) < MERGE_DISTANCE)) continue
+
+		palette.push({ rgb, lab })
+		if (palette.length === PALETTE_SIZE) break
+	}
+
+	return palette.map(entry => rgbToHex(entry.rgb))
+}
+
+// ==================== COLOR MATH ====================
+export function hexToRgb(hex: string): Rgb | null {
+	const match = hex.trim().match(/^#?([0-9a-f]{6})$/i)
+	if (!match?.[1]) return null
+	const value = parseInt(match[1], 16)
+	return [(value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF]
+}
+
+function rgbToHex(rgb: Rgb): string {
+	return '#' + rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')
+}
+
+// sRGB (D65) to CIE Lab, where Euclidean distance roughly follows perceived difference
+function rgbToLab([r, g, b]: Rgb): Lab {
+	const linear = (channel: number) => {
+		const c = channel / 255
+		return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+	}
+	const [lr, lg, lb] = [linear(r), linear(g), linear(b)]
+
+	const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047
+	const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722
+	const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883
+
+	const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116
+	const [fx, fy, fz] = [f(x), f(y), f(z)]
+
+	return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+function labDistance(a: Lab, b: Lab): number {
+	return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+// How far a palette is from a color: the closest swatch wins, with a small penalty for less dominant swatches
+export function paletteDistance(palette: string[], color: string): number {
+	const target = hexToRgb(color)
+	if (!target) return Infinity
+	const targetLab = rgbToLab(target)
+
+	let best = Infinity
+	palette.forEach((hex, rank) => {
+		const rgb = hexToRgb(hex)
+		if (!rgb) return
+		best = Math.min(best, labDistance(rgbToLab(rgb), targetLab) + rank * 3)
+	})
+	return best
+}
+
+// ==================== NOTE FRONTMATTER ====================
+export async function writePalette(app: App, note: TFile, palette: string[]) {
+	await app.fileManager.processFrontMatter(note, (frontmatter: Record<string, unknown>) => {
+		frontmatter[PALETTE_KEY] = palette
+	})
+}
+
+// A few representative colors of the notes carrying a tag: each note's dominant color, without near-duplicates
+export function getTagPalette(app: App, files: TFile[]): string[] {
+	const colors: string[] = []
+
+	for (const file of files) {
+		const dominant = readPalette(app.metadataCache.getFileCache(file)?.frontmatter?.[PALETTE_KEY])[0]
+		if (dominant && colors.every(color => paletteDistance([color], dominant) >= MERGE_DISTANCE)) {
+			colors.push(dominant)
+		}
+		if (colors.length === PALETTE_SIZE) break
+	}
+
+	return colors
+}
+
+export function renderSwatches(container: HTMLElement, palette: string[]) {
+	const swatches = container.createDiv('image-palette')
+	palette.forEach(color => {
+		const swatch = swatches.createSpan({ cls: 'image-palette-swatch', attr: { title: color } })
+		swatch.style.setProperty('--swatch-color', color)
+	})
+	return swatches
+}
+
+// Compute palettes for image notes that don't have one yet, yielding between images to keep the app responsive
+export async function backfillPalettes(plugin: ImageTagPlugin) {
+	const { app } = plugin
+	const notes = collectImageNotes(app, '', plugin.settings.frontmatterKeys)
+		.filter(note => note.imageFile && note.palette.length === 0)
+
+	if (notes.length === 0) {
+		new Notice('Every image note already has a palette')
+		return
+	}
+
+	const progress = new Notice(`Extracting palettes: 0/${notes.length}`, 0)
+	let updated = 0
+
+	for (let i = 0; i < notes.length; i++) {
+		const note = notes[i]
+		if (!note?.imageFile) continue
+
+		try {
+			const palette = await extractPalette(app, note.imageFile)
+			if (palette.length > 0) {
+				await writePalette(app, note.file, palette)
+				updated++
+			}
+		} catch (error) {
+			console.error(`Error extracting palette of ${note.image}:`, error)
+		}
+
+		progress.setMessage(`Extracting palettes: ${i + 1}/${notes.length}`)
+		await new Promise(resolve => window.setTimeout(resolve, 0))
+	}
+
+	progress.hide()
+	new Notice(`Added palettes to ${updated} note${updated === 1 ? '' : 's'}`)
+}
+
+// ==================== COLOR SEARCH MODAL ====================
+const MAX_COLOR_RESULTS = 50
+
+export class ColorSearchModal extends Modal {
+	plugin: ImageTagPlugin
+	color: string = '#c0392b'
+	resultsEl: HTMLElement
+	statusEl: HTMLElement
+
+	private requestSearch = debounce(() => this.search(), 150, true)
+
+	constructor(app: App, plugin: ImageTagPlugin) {
+		super(app)
+		this.plugin = plugin
+	}
+
+	onOpen() {
+		this.modalEl.addClass('image-query-modal')
+		this.titleEl.setText('Find images by color')
+
+		this.contentEl.createEl('p', {
+			text: 'Pick a color; images whose palette comes closest are listed first.',
+			cls: 'tag-instruction'
+		})
+
+		const pickerRow = this.contentEl.createDiv('image-color-picker')
+		const input = pickerRow.createEl('input', { type: 'color', value: this.color })
+		const hexInput = pickerRow.createEl('input', { type: 'text', value: this.color, cls: 'image-color-hex' })
+
+		this.statusEl = this.contentEl.createDiv('image-query-status')
+		this.resultsEl = this.contentEl.createDiv('image-query-results')
+
+		input.addEventListener('input', () => {
+			this.color = input.value
+			hexInput.value = input.value
+			this.requestSearch()
+		})
+		hexInput.addEventListener('input', () => {
+			const rgb = hexToRgb(hexInput.value)
+			if (!rgb) return
+			this.color = rgbToHex(rgb)
+			input.value = this.color
+			this.requestSearch()
+		})
+
+		this.search()
+	}
+
+	search() {
+		this.resultsEl.empty()
+
+		const notes = collectLibraryNotes(this.app, this.plugin.settings)
+			.filter(note => note.palette.length > 0)
+
+		if (notes.length === 0) {
+			this.statusEl.setText('No image notes have a palette yet. Run the palette backfill command first.')
+			return
+		}
+
+		const ranked = notes
+			.map(note => ({ note, distance: paletteDistance(note.palette, this.color) }))
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, MAX_COLOR_RESULTS)
+
+		this.statusEl.setText(`Closest ${ranked.length} of ${notes.length} images with a palette`)
+		ranked.forEach(({ note }) => this.createResultItem(note))
+	}
+
+	createResultItem(note: ImageNote) {
+		const item = this.resultsEl.createDiv('image-query-result')
+
+		if (note.imageFile) {
+			item.createEl('img', {
+				cls: 'image-query-thumb',
+				attr: { src: this.app.vault.getResourcePath(note.imageFile), loading: 'lazy' }
+			})
+		}
+
+		const info = item.createDiv('image-query-info')
+		info.createEl('span', { text: note.file.basename, cls: 'image-query-title' })
+		renderSwatches(info, note.palette)
+
+		item.addEventListener('click', (evt) => {
+			this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(note.file).catch(error => {
+				console.error(error)
+			})
+			this.close()
+		})
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
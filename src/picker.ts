@@ -0,0 +1,274 @@
+import { SearchResult, prepareFuzzySearch } from 'obsidian'
+import { applyCategoryStyle, getTagCategory, groupByCategory, renderCategoryHeader } from './categories'
+import { TagCategory } from './settings'
+import { buildTagTree, cleanTag, TagTreeNode } from './tags'
+
+// ==================== TAG PICKER ====================
+// Clickable tag buttons shared by the single and batch tagging modals.
+// With categories, each category gets its own section. Within a section flat tags come first;
+// nested tags are grouped under their top-level parent.
+export function renderTagPicker(containerEl: HTMLElement, tags: string[], selectedTags: Set<string>, onChange?: () => void, categories: TagCategory[] = []) {
+	const tagsContainer = containerEl.createDiv('ImageTag-tags-container')
+
+	if (categories.length === 0) {
+		renderTagButtons(tagsContainer, tags, selectedTags, [], onChange)
+		return tagsContainer
+	}
+
+	tagsContainer.addClass('is-categorized')
+	groupByCategory(tags, categories).forEach(({ category, tags: grouped }) => {
+		const section = tagsContainer.createDiv('ImageTag-category-section')
+		renderCategoryHeader(section, category, 'ImageTag-category-header')
+		renderTagButtons(section.createDiv('ImageTag-category-tags'), grouped, selectedTags, categories, onChange)
+	})
+
+	return tagsContainer
+}
+
+function renderTagButtons(tagsContainer: HTMLElement, tags: string[], selectedTags: Set<string>, categories: TagCategory[], onChange?: () => void) {
+	const tree = buildTagTree(tags)
+	const button = (tag: string, label: string, container: HTMLElement) => {
+		const btn = createTagButton(tag, label, container, selectedTags, onChange)
+		applyCategoryStyle(btn, getTagCategory(tag, categories))
+	}
+
+	tree.filter(node => node.children.length === 0).forEach(node => {
+		button(node.path, node.path, tagsContainer)
+	})
+
+	tree.filter(node => node.children.length > 0).forEach(node => {
+		const descendants = flattenTree(node)
+		const group = tagsContainer.createEl('details', { cls: 'ImageTag-tag-group' })
+		group.open = descendants.some(child => selectedTags.has(child.path))
+		group.createEl('summary', { text: node.name, cls: 'ImageTag-tag-group-title' })
+
+		const groupItems = group.createDiv('ImageTag-tag-group-items')
+		descendants
+			.filter(child => child.explicit)
+			.forEach(child => {
+				// Children are labelled relative to the group, e.g. `hands` under `anatomy`
+				const label = child === node ? node.name : child.path.slice(node.path.length + 1)
+				button(child.path, label, groupItems)
+			})
+	})
+}
+
+function createTagButton(tag: string, label: string, container: HTMLElement, selectedTags: Set<string>, onChange?: () => void) {
+	const btn = container.createEl('button', {
+		text: label,
+		cls: 'ImageTag-tag-btn',
+		title: tag
+	})
+
+	if (selectedTags.has(tag)) {
+		btn.addClass('ImageTag-tag-selected')
+	}
+
+	btn.addEventListener('click', () => {
+		if (selectedTags.has(tag)) {
+			selectedTags.delete(tag)
+			btn.removeClass('ImageTag-tag-selected')
+		} else {
+			selectedTags.add(tag)
+			btn.addClass('ImageTag-tag-selected')
+		}
+		onChange?.()
+	})
+
+	return btn
+}
+
+function flattenTree(node: TagTreeNode): TagTreeNode[] {
+	return node.children.reduce((list, child) => list.concat(flattenTree(child)), [node])
+}
+
+// ==================== TAG SEARCH ====================
+// Filter-as-you-type tag input: arrow keys move through the ranked matches, Enter picks one (or creates
+// a new tag), and selected tags show as chips that Backspace removes from an empty field.
+
+const MAX_SUGGESTIONS = 8
+
+// Ranked like the tag manager's relevance sort: exact, prefix, nested part, substring, then fuzzy matches,
+// with a small boost for often used tags. Null when the tag doesn't match at all.
+export function scoreTagMatch(tag: string, query: string, count: number, fuzzy: (text: string) => SearchResult | null): number | null {
+	const name = tag.toLowerCase()
+	let score: number
+
+	if (name === query) score = 1000
+	else if (name.startsWith(query)) score = 100
+	// A nested or hyphenated part starts with the query, e.g. `hands` in `anatomy/hands`
+	else if (name.split(/[/_-]/).some(part => part.startsWith(query))) score = 50
+	else if (name.includes(query)) score = 10
+	else {
+		const result = fuzzy(name)
+		if (!result) return null
+		score = 1 + 4 / (1 + Math.abs(result.score))
+	}
+
+	return score + Math.min(count, 5)
+}
+
+export interface TagSearchOptions {
+	// Candidate tags, read on every keystroke so newly created tags show up
+	getTags: () => string[]
+	selectedTags: Set<string>
+	getCount?: (tag: string) => number
+	// Called after the selection changed
+	onChange?: () => void
+	// Store a brand-new tag, resolving to the stored name, or null when it couldn't be added
+	onCreate?: (tag: string) => Promise<string | null>
+}
+
+export class TagSearch {
+	options: TagSearchOptions
+	inputEl: HTMLInputElement
+	private chipsEl: HTMLElement
+	private suggestionsEl: HTMLElement
+	private suggestions: { tag: string, create: boolean }[] = []
+	private active = 0
+
+	constructor(containerEl: HTMLElement, options: TagSearchOptions) {
+		this.options = options
+
+		const box = containerEl.createDiv('ImageTag-tag-search')
+		this.chipsEl = box.createDiv('ImageTag-tag-chips')
+		this.inputEl = box.createEl('input', {
+			type: 'text',
+			placeholder: 'Type to find or create a tag...',
+			cls: 'ImageTag-tag-search-input'
+		})
+		this.suggestionsEl = containerEl.createDiv('ImageTag-tag-suggestions')
+
+		// Clicking anywhere in the box focuses the field
+		box.addEventListener('click', () => this.inputEl.focus())
+		this.inputEl.addEventListener('input', () => {
+			this.active = 0
+			this.renderSuggestions()
+		})
+		this.inputEl.addEventListener('keydown', (evt) => this.handleKey(evt))
+		this.inputEl.addEventListener('blur', () => this.suggestionsEl.empty())
+		this.inputEl.addEventListener('focus', () => this.renderSuggestions())
+
+		this.refresh()
+	}
+
+	// Re-render chips and matches, e.g. after the selection changed elsewhere
+	refresh() {
+		this.renderChips()
+		if (document.activeElement === this.inputEl) this.renderSuggestions()
+	}
+
+	private get query(): string {
+		return cleanTag(this.inputEl.value)
+	}
+
+	private renderChips() {
+		this.chipsEl.empty()
+		this.options.selectedTags.forEach(tag => {
+			const chip = this.chipsEl.createSpan({ text: tag, cls: 'ImageTag-tag-chip' })
+			const removeBtn = chip.createEl('button', { text: '×', cls: 'ImageTag-tag-chip-remove', title: `Remove ${tag}` })
+			removeBtn.addEventListener('click', (evt) => {
+				evt.stopPropagation()
+				this.deselect(tag)
+			})
+		})
+	}
+
+	private renderSuggestions() {
+		this.suggestionsEl.empty()
+		const query = this.query
+		if (!query) {
+			this.suggestions = []
+			return
+		}
+
+		const { getTags, selectedTags, getCount } = this.options
+		const fuzzy = prepareFuzzySearch(query)
+		const tags = getTags()
+
+		this.suggestions = tags
+			.filter(tag => !selectedTags.has(tag))
+			.map(tag => ({ tag, score: scoreTagMatch(tag, query, getCount?.(tag) ?? 0, fuzzy) }))
+			.filter((entry): entry is { tag: string, score: number } => entry.score !== null)
+			.sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag))
+			.slice(0, MAX_SUGGESTIONS)
+			.map(entry => ({ tag: entry.tag, create: false }))
+
+		if (this.options.onCreate && !tags.includes(query) && !selectedTags.has(query)) {
+			this.suggestions.push({ tag: query, create: true })
+		}
+
+		this.active = Math.min(this.active, Math.max(0, this.suggestions.length - 1))
+
+		this.suggestions.forEach((suggestion, index) => {
+			const item = this.suggestionsEl.createDiv('ImageTag-tag-suggestion')
+			item.toggleClass('is-active', index === this.active)
+
+			if (suggestion.create) {
+				item.setText(`Create tag "${suggestion.tag}"`)
+				item.addClass('is-create')
+			} else {
+				item.createSpan({ text: suggestion.tag })
+				const count = getCount?.(suggestion.tag) ?? 0
+				if (count > 0) item.createSpan({ text: String(count), cls: 'ImageTag-tag-suggestion-count' })
+			}
+
+			// Mousedown keeps focus in the field, which a click would take away first
+			item.addEventListener('mousedown', (evt) => {
+				evt.preventDefault()
+				this.active = index
+				this.choose()
+			})
+		})
+	}
+
+	private handleKey(evt: KeyboardEvent) {
+		if (evt.key === 'ArrowDown' || evt.key === 'ArrowUp') {
+			if (this.suggestions.length === 0) return
+			evt.preventDefault()
+			const step = evt.key === 'ArrowDown' ? 1 : -1
+			this.active = (this.active + step + this.suggestions.length) % this.suggestions.length
+			this.renderSuggestions()
+		} else if (evt.key === 'Enter') {
+			if (this.suggestions.length === 0) return
+			evt.preventDefault()
+			this.choose()
+		} else if (evt.key === 'Backspace' && this.inputEl.value === '') {
+			const last = Array.from(this.options.selectedTags).pop()
+			if (last) {
+				evt.preventDefault()
+				this.deselect(last)
+			}
+		}
+	}
+
+	private choose() {
+		const suggestion = this.suggestions[this.active]
+		if (!suggestion) return
+
+		if (!suggestion.create) {
+			this.select(suggestion.tag)
+			return
+		}
+
+		this.options.onCreate?.(suggestion.tag).then(tag => {
+			if (tag) this.select(tag)
+		}).catch(error => {
+			console.error('Failed to create tag:', error)
+		})
+	}
+
+	private select(tag: string) {
+		this.options.selectedTags.add(tag)
+		this.inputEl.value = ''
+		this.active = 0
+		this.refresh()
+		this.options.onChange?.()
+	}
+
+	private deselect(tag: string) {
+		this.options.selectedTags.delete(tag)
+		this.refresh()
+		this.options.onChange?.()
+	}
+}
@@ -0,0 +1,364 @@
+import { App, Keymap, Modal, debounce } from 'obsidian'
+import ImageTagPlugin from './main'
+import { ImageNote, collectLibraryNotes } from './library'
+import { isTagOrDescendant, resolveTagAlias } from './tags'
+
+// ==================== QUERY PARSER ====================
+// Grammar (AND binds tighter than OR, adjacent terms are implicitly AND-ed):
+//   query   := or
+//   or      := and ( OR and )*
+//   and     := not ( [AND] not )*
+//   not     := ( NOT | - ) not | primary
+//   primary := ( or ) | field:value | tag
+// Fields: tag:, author:, created: (created also accepts >, >=, <, <= and date prefixes)
+
+export type QueryField = 'tag' | 'author' | 'created'
+export type QueryComparator = '=' | '>' | '>=' | '<' | '<='
+
+export type QueryNode =
+	| { type: 'and', left: QueryNode, right: QueryNode }
+	| { type: 'or', left: QueryNode, right: QueryNode }
+	| { type: 'not', operand: QueryNode }
+	| { type: 'term', field: QueryField, comparator: QueryComparator, value: string }
+
+type Token =
+	| { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not', pos: number }
+	| { kind: 'word', value: string, quoted: boolean, colon: number, pos: number }
+
+export class QueryError extends Error {
+	pos: number
+
+	constructor(message: string, pos: number) {
+		super(message)
+		this.name = 'QueryError'
+		this.pos = pos
+	}
+}
+
+const FIELDS: QueryField[] = ['tag', 'author', 'created']
+
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = []
+	let i = 0
+
+	while (i < input.length) {
+		const ch = input.charAt(i)
+
+		if (/\s/.test(ch)) {
+			i++
+			continue
+		}
+
+		if (ch === '(' || ch === ')') {
+			tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', pos: i })
+			i++
+			continue
+		}
+
+		// Leading dash is shorthand for NOT
+		if (ch === '-' && (tokens.length === 0 || /[\s(]/.test(input.charAt(i - 1)))) {
+			tokens.push({ kind: 'not', pos: i })
+			i++
+			continue
+		}
+
+		const start = i
+		let value = ''
+		let quoted = false
+		let colon = -1
+
+		// A word may mix bare characters and quoted sections, e.g. author:"Jane Doe"
+		while (i < input.length && !/[\s()]/.test(input.charAt(i))) {
+			const c = input.charAt(i)
+			if (c === '"' || c === "'") {
+				const close = input.indexOf(c, i + 1)
+				if (close === -1) throw new QueryError('Unterminated quote', i)
+				value += input.slice(i + 1, close)
+				quoted = true
+				i = close + 1
+			} else {
+				// Only an unquoted colon separates a field name from its value
+				if (c === ':' && colon === -1) colon = value.length
+				value += c
+				i++
+			}
+		}
+
+		const keyword = quoted ? '' : value.toUpperCase()
+		if (keyword === 'AND' || value === '&&') {
+			tokens.push({ kind: 'and', pos: start })
+		} else if (keyword === 'OR' || value === '||') {
+			tokens.push({ kind: 'or', pos: start })
+		} else if (keyword === 'NOT') {
+			tokens.push({ kind: 'not', pos: start })
+		} else {
+			tokens.push({ kind: 'word', value, quoted, colon, pos: start })
+		}
+	}
+
+	return tokens
+}
+
+class QueryParser {
+	private tokens: Token[]
+	private index = 0
+	private length: number
+
+	constructor(input: string) {
+		this.tokens = tokenize(input)
+		this.length = input.length
+	}
+
+	parse(): QueryNode {
+		if (this.tokens.length === 0) throw new QueryError('Query is empty', 0)
+
+		const node = this.parseOr()
+		const extra = this.peek()
+		if (extra) throw new QueryError(`Unexpected ${extra.kind === 'rparen' ? '")"' : 'token'}`, extra.pos)
+		return node
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index]
+	}
+
+	private parseOr(): QueryNode {
+		let left = this.parseAnd()
+		while (this.peek()?.kind === 'or') {
+			this.index++
+			left = { type: 'or', left, right: this.parseAnd() }
+		}
+		return left
+	}
+
+	private parseAnd(): QueryNode {
+		let left = this.parseNot()
+		for (;;) {
+			const next = this.peek()
+			if (!next || next.kind === 'or' || next.kind === 'rparen') break
+			if (next.kind === 'and') this.index++
+			left = { type: 'and', left, right: this.parseNot() }
+		}
+		return left
+	}
+
+	private parseNot(): QueryNode {
+		if (this.peek()?.kind === 'not') {
+			this.index++
+			return { type: 'not', operand: this.parseNot() }
+		}
+		return this.parsePrimary()
+	}
+
+	private parsePrimary(): QueryNode {
+		const token = this.peek()
+		if (!token) throw new QueryError('Unexpected end of query', this.length)
+
+		if (token.kind === 'lparen') {
+			this.index++
+			const node = this.parseOr()
+			if (this.peek()?.kind !== 'rparen') throw new QueryError('Missing ")"', this.peek()?.pos ?? this.length)
+			this.index++
+			return node
+		}
+
+		if (token.kind !== 'word') throw new QueryError(`Unexpected "${token.kind.toUpperCase()}"`, token.pos)
+
+		this.index++
+		return parseTerm(token.value, token.colon, token.pos)
+	}
+}
+
+function parseTerm(word: string, colon: number, pos: number): QueryNode {
+	const field = colon > 0 ? word.slice(0, colon).toLowerCase() : ''
+
+	if (FIELDS.includes(field as QueryField)) {
+		let value = word.slice(colon + 1)
+		let comparator: QueryComparator = '='
+
+		if (field === 'created') {
+			const match = value.match(/^(>=|<=|>|<|=)/)
+			if (match?.[1]) {
+				comparator = match[1] as QueryComparator
+				value = value.slice(match[1].length)
+			}
+		}
+
+		if (!value) throw new QueryError(`Missing value for "${field}:"`, pos)
+		if (field === 'tag') value = value.replace(/^#/, '')
+
+		return { type: 'term', field: field as QueryField, comparator, value }
+	}
+
+	return { type: 'term', field: 'tag', comparator: '=', value: word.replace(/^#/, '') }
+}
+
+export function parseQuery(input: string): QueryNode {
+	return new QueryParser(input).parse()
+}
+
+// ==================== QUERY EVALUATOR ====================
+export function evaluateQuery(node: QueryNode, note: ImageNote): boolean {
+	switch (node.type) {
+		case 'and':
+			return evaluateQuery(node.left, note) && evaluateQuery(node.right, note)
+		case 'or':
+			return evaluateQuery(node.left, note) || evaluateQuery(node.right, note)
+		case 'not':
+			return !evaluateQuery(node.operand, note)
+		case 'term':
+			return matchTerm(node.field, node.comparator, node.value, note)
+	}
+}
+
+function matchTerm(field: QueryField, comparator: QueryComparator, value: string, note: ImageNote): boolean {
+	const needle = value.toLowerCase()
+
+	switch (field) {
+		case 'tag':
+			// A parent tag also matches every tag nested below it
+			return note.tags.some(tag => isTagOrDescendant(tag, needle))
+		case 'author':
+			return note.author.toLowerCase().includes(needle)
+		case 'created': {
+			const created = note.created
+			if (!created) return false
+			// Compare only as many characters as given, so "2024" and "2024-05" act as ranges
+			const prefix = created.slice(0, value.length)
+			switch (comparator) {
+				case '=': return prefix === value
+				case '>': return prefix > value
+				case '>=': return prefix >= value
+				case '<': return prefix < value
+				case '<=': return prefix <= value
+			}
+		}
+	}
+}
+
+// Aliases are resolved on both sides, so `bw` finds notes tagged `monochrome` and the other way round
+export function runQuery(input: string, notes: ImageNote[], aliases: Record<string, string[]> = {}): ImageNote[] {
+	const ast = resolveQueryAliases(parseQuery(input), aliases)
+	return notes.filter(note => evaluateQuery(ast, { ...note, tags: note.tags.map(tag => resolveTagAlias(tag, aliases)) }))
+}
+
+function resolveQueryAliases(node: QueryNode, aliases: Record<string, string[]>): QueryNode {
+	switch (node.type) {
+		case 'and':
+		case 'or':
+			return { ...node, left: resolveQueryAliases(node.left, aliases), right: resolveQueryAliases(node.right, aliases) }
+		case 'not':
+			return { ...node, operand: resolveQueryAliases(node.operand, aliases) }
+		case 'term':
+			return node.field === 'tag' ? { ...node, value: resolveTagAlias(node.value, aliases) } : node
+	}
+}
+
+// ==================== QUERY MODAL ====================
+export class ImageQueryModal extends Modal {
+	plugin: ImageTagPlugin
+	query: string = ''
+	resultsEl: HTMLElement
+	statusEl: HTMLElement
+
+	private requestSearch = debounce(() => this.search(), 200, true)
+
+	constructor(app: App, plugin: ImageTagPlugin, query = '') {
+		super(app)
+		this.plugin = plugin
+		this.query = query
+	}
+
+	onOpen() {
+		this.modalEl.addClass('image-query-modal')
+		this.titleEl.setText('Search images')
+
+		this.contentEl.createEl('p', {
+			// eslint-disable-next-line obsidianmd/ui/sentence-case -- Operator keywords are meant to be read in upper case
+			text: 'Combine tags with AND, OR, NOT and parentheses. Use quotes for tags with spaces, and author: or created: to filter by note fields.',
+			cls: 'tag-instruction'
+		})
+
+		const input = this.contentEl.createEl('input', {
+			type: 'text',
+			placeholder: 'E.g. character AND dynamic-pose NOT ai',
+			cls: 'image-query-input',
+			value: this.query
+		})
+
+		this.statusEl = this.contentEl.createDiv('image-query-status')
+		this.resultsEl = this.contentEl.createDiv('image-query-results')
+
+		input.addEventListener('input', () => {
+			this.query = input.value
+			this.requestSearch()
+		})
+
+		this.scope.register([], 'Enter', (evt) => {
+			evt.preventDefault()
+			this.search()
+		})
+
+		input.focus()
+		if (this.query) this.search()
+	}
+
+	search() {
+		this.resultsEl.empty()
+		this.statusEl.removeClass('image-query-error')
+
+		if (!this.query.trim()) {
+			this.statusEl.setText('')
+			return
+		}
+
+		let matches: ImageNote[]
+		try {
+			const notes = collectLibraryNotes(this.app, this.plugin.settings)
+			matches = runQuery(this.query, notes, this.plugin.settings.tagAliases)
+		} catch (error) {
+			if (error instanceof QueryError) {
+				this.statusEl.setText(`${error.message} (at position ${error.pos + 1})`)
+				this.statusEl.addClass('image-query-error')
+				return
+			}
+			throw error
+		}
+
+		this.statusEl.setText(`${matches.length} matching image${matches.length === 1 ? '' : 's'}`)
+
+		matches
+			.sort((a, b) => a.file.basename.localeCompare(b.file.basename))
+			.forEach(note => this.createResultItem(note))
+	}
+
+	createResultItem(note: ImageNote) {
+		const item = this.resultsEl.createDiv('image-query-result')
+
+		if (note.imageFile) {
+			item.createEl('img', {
+				cls: 'image-query-thumb',
+				attr: { src: this.app.vault.getResourcePath(note.imageFile), loading: 'lazy' }
+			})
+		}
+
+		const info = item.createDiv('image-query-info')
+		info.createEl('span', { text: note.file.basename, cls: 'image-query-title' })
+		info.createEl('span', {
+			text: [note.author, note.tags.join(', ')].filter(Boolean).join(' · '),
+			cls: 'image-query-meta'
+		})
+
+		item.addEventListener('click', (evt) => {
+			this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(note.file).catch(error => {
+				console.error(error)
+			})
+			this.close()
+		})
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
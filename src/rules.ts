@@ -0,0 +1,289 @@
+import { App, Modal, Notice, Setting as PluginSettings, TFile, normalizePath } from 'obsidian'
+import ImageTagPlugin from './main'
+import { validateCategories } from './categories'
+import { findImageNote, isImageFile, readImageDimensions } from './library'
+import { AutoTagRule, ImageOrientation } from './settings'
+import { cleanTag } from './tags'
+
+// ==================== AUTO-TAGGING RULES ====================
+// Rules map conditions on an image (folder, file name, extension, shape, size) to tags.
+// They pre-select tags when the tag modal opens, and tag new images in watched folders on their own.
+
+// Width / height within this distance of 1 counts as square
+const SQUARE_TOLERANCE = 0.02
+
+export function createEmptyRule(): AutoTagRule {
+	return {
+		name: 'New rule',
+		enabled: true,
+		tags: [],
+		folder: '',
+		filenamePattern: '',
+		extensions: [],
+		orientation: 'any',
+		minAspectRatio: null,
+		maxAspectRatio: null,
+		minSizeKB: null,
+		maxSizeKB: null
+	}
+}
+
+function ruleNeedsDimensions(rule: AutoTagRule): boolean {
+	return rule.orientation !== 'any' || rule.minAspectRatio !== null || rule.maxAspectRatio !== null
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	const normalized = normalizePath(folder)
+	return normalized === '/' || path.startsWith(`${normalized}/`)
+}
+
+function getOrientation(width: number, height: number): ImageOrientation {
+	const ratio = width / height
+	if (Math.abs(ratio - 1) <= SQUARE_TOLERANCE) return 'square'
+	return ratio > 1 ? 'landscape' : 'portrait'
+}
+
+// Tags of a single rule for this image, or null when a condition fails
+export function matchRule(rule: AutoTagRule, image: TFile, dimensions: { width: number, height: number } | null): string[] | null {
+	if (rule.folder.trim() && !isInFolder(image.path, rule.folder.trim())) return null
+
+	if (rule.extensions.length > 0 && !rule.extensions.includes(image.extension.toLowerCase())) return null
+
+	const sizeKB = image.stat.size / 1024
+	if (rule.minSizeKB !== null && sizeKB < rule.minSizeKB) return null
+	if (rule.maxSizeKB !== null && sizeKB > rule.maxSizeKB) return null
+
+	if (ruleNeedsDimensions(rule)) {
+		if (!dimensions || dimensions.height === 0) return null
+		const ratio = dimensions.width / dimensions.height
+		if (rule.orientation !== 'any' && getOrientation(dimensions.width, dimensions.height) !== rule.orientation) return null
+		if (rule.minAspectRatio !== null && ratio < rule.minAspectRatio) return null
+		if (rule.maxAspectRatio !== null && ratio > rule.maxAspectRatio) return null
+	}
+
+	// Patterns containing a slash are matched against the whole path, others against the file name
+	let groups: string[] = []
+	if (rule.filenamePattern) {
+		let match: RegExpMatchArray | null
+		try {
+			const subject = rule.filenamePattern.includes('/') ? image.path : image.name
+			match = subject.match(new RegExp(rule.filenamePattern, 'i'))
+		} catch (error) {
+			console.warn(`ImageTag: Invalid pattern in rule "${rule.name}":`, error)
+			return null
+		}
+		if (!match) return null
+		groups = Array.from(match)
+	}
+
+	const tags: string[] = []
+	rule.tags.forEach(tag => {
+		// Tags whose group captured nothing are dropped rather than left half-filled
+		let complete = true
+		const filled = tag.replace(/\$(\d)/g, (_, n: string) => {
+			const group = groups[Number(n)]?.trim()
+			if (!group) complete = false
+			return group ?? ''
+		})
+
+		const cleaned = cleanTag(filled).replace(/\s+/g, '-')
+		if (complete && cleaned) tags.push(cleaned)
+	})
+	return tags
+}
+
+// Tags of every enabled rule that matches, without duplicates
+export async function evaluateRules(app: App, rules: AutoTagRule[], image: TFile): Promise<string[]> {
+	const active = rules.filter(rule => rule.enabled && rule.tags.length > 0)
+	if (active.length === 0) return []
+
+	// Decoding the image is only worth it when some rule looks at its shape
+	const dimensions = active.some(ruleNeedsDimensions) ? await readImageDimensions(app, image) : null
+
+	const tags = new Set<string>()
+	active.forEach(rule => matchRule(rule, image, dimensions)?.forEach(tag => tags.add(tag)))
+	return Array.from(tags)
+}
+
+// Create a note for a new image in a watched folder when any rule matches
+export async function autoTagNewImage(plugin: ImageTagPlugin, file: TFile) {
+	const { settings } = plugin
+	if (!isImageFile(file)) return
+	if (!settings.autoTagWatchedFolders.some(folder => isInFolder(file.path, folder))) return
+	if (findImageNote(plugin.app, file, settings.frontmatterKeys)) return
+
+	// Same canonical tags and category rules as tagging by hand
+	const tags = [...new Set((await evaluateRules(plugin.app, settings.autoTagRules, file)).map(tag => plugin.resolveAlias(tag)))]
+	if (tags.length === 0) return
+
+	const problems = validateCategories(tags, settings.tagCategories)
+	if (problems.length > 0) {
+		new Notice(`Left ${file.name} for manual tagging: ${problems.join('; ')}`)
+		return
+	}
+
+	for (const tag of tags) {
+		await plugin.addNewTag(tag)
+	}
+	await plugin.createImageNote(file, { tags, author: '', notes: '' })
+	plugin.refreshTagManager()
+	new Notice(`Auto-tagged ${file.name}: ${tags.join(', ')}`)
+}
+
+// Short summary of a rule's conditions for the settings list
+export function describeRule(rule: AutoTagRule): string {
+	const conditions: string[] = []
+	if (rule.folder.trim()) conditions.push(`in ${rule.folder.trim()}`)
+	if (rule.filenamePattern) conditions.push(`matches /${rule.filenamePattern}/`)
+	if (rule.extensions.length > 0) conditions.push(rule.extensions.join(', '))
+	if (rule.orientation !== 'any') conditions.push(rule.orientation)
+	if (rule.minAspectRatio !== null) conditions.push(`ratio ≥ ${rule.minAspectRatio}`)
+	if (rule.maxAspectRatio !== null) conditions.push(`ratio ≤ ${rule.maxAspectRatio}`)
+	if (rule.minSizeKB !== null) conditions.push(`≥ ${rule.minSizeKB} KB`)
+	if (rule.maxSizeKB !== null) conditions.push(`≤ ${rule.maxSizeKB} KB`)
+
+	const when = conditions.length > 0 ? conditions.join(' · ') : 'every image'
+	return `${when} → ${rule.tags.length > 0 ? rule.tags.join(', ') : 'no tags'}`
+}
+
+function parseOptionalNumber(value: string): number | null {
+	const number = parseFloat(value)
+	return value.trim() && !isNaN(number) ? number : null
+}
+
+function parseList(value: string): string[] {
+	return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// ==================== RULE EDITOR MODAL ====================
+export class AutoTagRuleModal extends Modal {
+	rule: AutoTagRule
+	onSave: (rule: AutoTagRule) => void | Promise<void>
+
+	constructor(app: App, rule: AutoTagRule, onSave: (rule: AutoTagRule) => void | Promise<void>) {
+		super(app)
+		// Edit a copy so cancelling leaves the saved rule untouched
+		this.rule = { ...rule, tags: [...rule.tags], extensions: [...rule.extensions] }
+		this.onSave = onSave
+	}
+
+	onOpen() {
+		const { contentEl, rule } = this
+		this.titleEl.setText('Auto-tagging rule')
+
+		new PluginSettings(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(rule.name)
+				.onChange(value => rule.name = value))
+
+		new PluginSettings(contentEl)
+			.setName('Tags')
+			.setDesc('Comma-separated. Use $1 or $2 to insert groups captured by the file name pattern.')
+			.addText(text => text
+				.setPlaceholder('E.g. , artist/$1, reference')
+				.setValue(rule.tags.join(', '))
+				.onChange(value => rule.tags = parseList(value)))
+
+		new PluginSettings(contentEl).setName('Conditions').setDesc('Leave a condition empty to ignore it').setHeading()
+
+		new PluginSettings(contentEl)
+			.setName('Folder')
+			.setDesc('Image must be inside this folder or one of its subfolders')
+			.addText(text => text
+				.setPlaceholder('Downloads')
+				.setValue(rule.folder)
+				.onChange(value => rule.folder = value.trim()))
+
+		new PluginSettings(contentEl)
+			.setName('File name pattern')
+			.setDesc('Regular expression, case-insensitive. Patterns containing a slash are matched against the full path.')
+			.addText(text => text
+				.setPlaceholder('^downloads/([^/]+)/')
+				.setValue(rule.filenamePattern)
+				.onChange(value => rule.filenamePattern = value))
+
+		new PluginSettings(contentEl)
+			.setName('Extensions')
+			.setDesc('Comma-separated, without the dot')
+			.addText(text => text
+				.setPlaceholder('E.g. , PNG, JPG')
+				.setValue(rule.extensions.join(', '))
+				.onChange(value => rule.extensions = parseList(value).map(ext => ext.replace(/^\./, '').toLowerCase())))
+
+		new PluginSettings(contentEl)
+			.setName('Orientation')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					any: 'Any',
+					landscape: 'Landscape',
+					portrait: 'Portrait',
+					square: 'Square'
+				})
+				.setValue(rule.orientation)
+				.onChange(value => rule.orientation = value as ImageOrientation))
+
+		new PluginSettings(contentEl)
+			.setName('Aspect ratio')
+			.setDesc('Width divided by height, e.g. 1.78 for 16:9')
+			.addText(text => text
+				.setPlaceholder('Min')
+				.setValue(rule.minAspectRatio?.toString() ?? '')
+				.onChange(value => rule.minAspectRatio = parseOptionalNumber(value)))
+			.addText(text => text
+				.setPlaceholder('Max')
+				.setValue(rule.maxAspectRatio?.toString() ?? '')
+				.onChange(value => rule.maxAspectRatio = parseOptionalNumber(value)))
+
+		new PluginSettings(contentEl)
+			.setName('File size in kilobytes')
+			.addText(text => text
+				.setPlaceholder('Min')
+				.setValue(rule.minSizeKB?.toString() ?? '')
+				.onChange(value => rule.minSizeKB = parseOptionalNumber(value)))
+			.addText(text => text
+				.setPlaceholder('Max')
+				.setValue(rule.maxSizeKB?.toString() ?? '')
+				.onChange(value => rule.maxSizeKB = parseOptionalNumber(value)))
+
+		const btnContainer = contentEl.createDiv('ImageTag-btn-container')
+
+		new PluginSettings(btnContainer)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => this.save()))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+	}
+
+	private save() {
+		const { rule } = this
+
+		if (rule.filenamePattern) {
+			try {
+				new RegExp(rule.filenamePattern)
+			} catch {
+				new Notice('The file name pattern is not a valid regular expression')
+				return
+			}
+		}
+
+		if (rule.tags.length === 0) {
+			new Notice('Please add at least one tag')
+			return
+		}
+
+		rule.name = rule.name.trim() || 'Untitled rule'
+		Promise.resolve(this.onSave(rule)).catch(error => {
+			console.error('Failed to save rule:', error)
+		})
+		this.close()
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
@@ -0,0 +1,82 @@
+import { CachedMetadata, TFile, normalizePath } from 'obsidian'
+import { getLibraryFolders, isInLibrary } from './library'
+import { ImageTagSettings, TagScope } from './settings'
+
+// ==================== TAG SCOPE ====================
+// Which notes the tag manager counts, scans and rewrites. Everything outside the scope is left alone,
+// so renaming an image tag doesn't touch journal or project notes that happen to use the same tag.
+
+export const TAG_SCOPE_LABELS: Record<TagScope, string> = {
+	'vault': 'Whole vault',
+	'library': 'Image library folders',
+	'image-notes': 'Image notes',
+	'custom': 'Custom folders'
+}
+
+export function isInTagScope(settings: ImageTagSettings, file: TFile, cache: CachedMetadata | null): boolean {
+	switch (settings.tagScope) {
+		case 'vault':
+			return true
+		case 'library':
+			return isInLibrary(settings, file.path)
+		case 'image-notes':
+			return Boolean(cache?.frontmatter?.[settings.frontmatterKeys.image])
+		case 'custom':
+			return settings.tagScopePaths.some(pattern => matchesScopePattern(file.path, pattern))
+	}
+}
+
+// Short description for the sidebar header
+export function describeTagScope(settings: ImageTagSettings): string {
+	switch (settings.tagScope) {
+		case 'vault':
+			return 'whole vault'
+		case 'library':
+			return getLibraryFolders(settings).some(folder => !folder || folder === '/')
+				? 'whole vault'
+				: getLibraryFolders(settings).map(folder => `${folder}/`).join(', ')
+		case 'image-notes':
+			return `notes with an "${settings.frontmatterKeys.image}" field`
+		case 'custom':
+			return settings.tagScopePaths.length > 0 ? settings.tagScopePaths.join(', ') : 'no folders chosen'
+	}
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	if (!folder.trim()) return true
+	const normalized = normalizePath(folder)
+	return normalized === '/' || path.startsWith(`${normalized}/`)
+}
+
+// A folder path, or a glob where `*` matches within one folder and `**` across folders.
+// Like folder paths, a glob matching a folder also matches everything inside it.
+export function matchesScopePattern(path: string, pattern: string): boolean {
+	const trimmed = pattern.trim()
+	if (!trimmed) return false
+	if (!/[*?]/.test(trimmed)) return isInFolder(path, trimmed)
+	return globToRegExp(normalizePath(trimmed)).test(path)
+}
+
+function globToRegExp(glob: string): RegExp {
+	let source = ''
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i] ?? ''
+		if (char === '*' && glob[i + 1] === '*') {
+			// `**/` also matches no folder at all
+			if (glob[i + 2] === '/') {
+				source += '(?:.*/)?'
+				i += 2
+			} else {
+				source += '.*'
+				i++
+			}
+		} else if (char === '*') {
+			source += '[^/]*'
+		} else if (char === '?') {
+			source += '[^/]'
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		}
+	}
+	return new RegExp(`^${source}(?:/.*)?$`, 'i')
+}
@@ -1,18 +1,137 @@
 import { App, PluginSettingTab, Setting as PluginSettings } from "obsidian"
 import ImageTagPlugin from "./main"
 
+// What happens to an image's note when the image is deleted
+export type OrphanAction = 'ask' | 'delete' | 'archive' | 'keep'
+
+// Frontmatter field names used for image notes
+export interface FrontmatterKeys {
+	image: string
+	author: string
+	tags: string
+	created: string
+	boards: string
+}
+
+// Notes the tag manager counts, scans and rewrites
+export type TagScope = 'vault' | 'library' | 'image-notes' | 'custom'
+
+// How many of a category's tags an image may carry
+export type CategoryConstraint = 'any' | 'exactly-one' | 'at-most-one'
+
+// A named group of tags with its own color and icon; covers the listed tags and their nested tags
+export interface TagCategory {
+	name: string
+	color: string
+	// Lucide icon id, empty for none
+	icon: string
+	tags: string[]
+	constraint: CategoryConstraint
+}
+
+// What a note routing rule looks at
+export type RouteMatch = 'tag' | 'author' | 'source-folder'
+
+// Sends new notes matching `value` to `folder`; the first matching route wins
+export interface NoteRoute {
+	match: RouteMatch
+	value: string
+	// May use the note name placeholders, e.g. `Artists/{{author}}`
+	folder: string
+}
+
+export type ImageOrientation = 'any' | 'landscape' | 'portrait' | 'square'
+
+// Conditions an image must meet for the rule's tags to apply; empty conditions are ignored
+export interface AutoTagRule {
+	name: string
+	enabled: boolean
+	// May use `$1`, `$2`... for groups captured by `filenamePattern`
+	tags: string[]
+	folder: string
+	filenamePattern: string
+	extensions: string[]
+	orientation: ImageOrientation
+	minAspectRatio: number | null
+	maxAspectRatio: number | null
+	minSizeKB: number | null
+	maxSizeKB: number | null
+}
+
+// Cached perceptual hash of an image, valid while the file's mtime is unchanged
+export interface ImageHash {
+	mtime: number
+	hash: string
+}
+
 export interface ImageTagSettings {
 	tags: string[]
 	defaultFolder: string
+	// File name of new notes, with placeholders
+	noteNamePattern: string
+	noteRoutes: NoteRoute[]
 	autoOpenModal: boolean
 	showWelcomeModal: boolean
+	favoriteTags: string[]
+	renameNotesWithImages: boolean
+	orphanAction: OrphanAction
+	archiveFolder: string
+	noteTemplate: string
+	noteTemplatePath: string
+	frontmatterKeys: FrontmatterKeys
+	autoTagRules: AutoTagRule[]
+	autoTagWatchedFolders: string[]
+	extractImageMetadata: boolean
+	extractPalette: boolean
+	duplicateThreshold: number
+	imageHashes: Record<string, ImageHash>
+	// Canonical tag -> synonyms that resolve to it
+	tagAliases: Record<string, string[]>
+	// How many bulk tag edits can be undone
+	undoJournalSize: number
+	tagScope: TagScope
+	// Folders or globs used by the `custom` scope
+	tagScopePaths: string[]
+	// Tags the vault scan no longer offers for import
+	ignoredTags: string[]
+	tagCategories: TagCategory[]
+	// Board names; which images are on a board is stored in their notes
+	boards: string[]
 }
 
 export const DEFAULT_SETTINGS: ImageTagSettings = {
 	tags: [],
 	defaultFolder: 'Image Library',
+	noteNamePattern: '{{name}}',
+	noteRoutes: [],
 	autoOpenModal: true,
-	showWelcomeModal: true
+	showWelcomeModal: true,
+	favoriteTags: [],
+	renameNotesWithImages: true,
+	orphanAction: 'ask',
+	archiveFolder: 'Image Library/Archive',
+	noteTemplate: '',
+	noteTemplatePath: '',
+	frontmatterKeys: {
+		image: 'image',
+		author: 'author',
+		tags: 'tags',
+		created: 'created',
+		boards: 'boards'
+	},
+	autoTagRules: [],
+	autoTagWatchedFolders: [],
+	extractImageMetadata: true,
+	extractPalette: true,
+	duplicateThreshold: 6,
+	imageHashes: {},
+	tagAliases: {},
+	undoJournalSize: 10,
+	tagScope: 'vault',
+	tagScopePaths: [],
+	ignoredTags: [],
+	tagCategories: [],
+	boards: []
 }
 
 export class ImageTagSettingTab extends PluginSettingTab {
@@ -0,0 +1,91 @@
+import { App, moment } from 'obsidian'
+import { collectImageNotes } from './library'
+import { FrontmatterKeys } from './settings'
+
+// ==================== TAG SUGGESTIONS ====================
+// Usage statistics are computed from the image notes whenever the tag modal opens, so renames,
+// merges and deleted notes are reflected without keeping any state of our own.
+
+const MAX_SUGGESTIONS = 8
+const MAX_RECENT = 8
+
+export interface TagStats {
+	// Notes carrying each tag
+	counts: Map<string, number>
+	// tag -> tag -> notes carrying both
+	pairs: Map<string, Map<string, number>>
+	// Tags of the most recently created notes, newest first
+	recent: string[]
+}
+
+export function computeTagStats(app: App, keys: FrontmatterKeys, resolve: (tag: string) => string): TagStats {
+	const counts = new Map<string, number>()
+	const pairs = new Map<string, Map<string, number>>()
+
+	const notes = collectImageNotes(app, '', keys)
+	const noteTags = notes.map(note => [...new Set(note.tags.map(tag => resolve(tag.toLowerCase())))])
+
+	noteTags.forEach(tags => {
+		tags.forEach(tag => {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1)
+
+			let partners = pairs.get(tag)
+			if (!partners) {
+				partners = new Map()
+				pairs.set(tag, partners)
+			}
+			for (const other of tags) {
+				if (other !== tag) partners.set(other, (partners.get(other) ?? 0) + 1)
+			}
+		})
+	})
+
+	// Ordered by the `created` field, then the file's creation time: unlike the modification time,
+	// neither changes when a backfill or a plain edit writes to the note
+	const byRecency = notes
+		.map((note, i) => {
+			const created = note.created ? moment(note.created) : null
+			return {
+				created: created?.isValid() ? created.valueOf() : note.file.stat.ctime,
+				ctime: note.file.stat.ctime,
+				tags: noteTags[i] ?? []
+			}
+		})
+		.sort((a, b) => b.created - a.created || b.ctime - a.ctime)
+
+	const recent: string[] = []
+	for (const { tags } of byRecency) {
+		tags.forEach(tag => {
+			if (!recent.includes(tag)) recent.push(tag)
+		})
+		if (recent.length >= MAX_RECENT) break
+	}
+
+	return { counts, pairs, recent: recent.slice(0, MAX_RECENT) }
+}
+
+// Tags that usually go with the selected ones, e.g. `anatomy` and `gesture` for `hands`.
+// With nothing selected yet, the most used tags.
+export function suggestTags(stats: TagStats, selected: Set<string>): string[] {
+	if (selected.size === 0) {
+		return Array.from(stats.counts.entries())
+			.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+			.slice(0, MAX_SUGGESTIONS)
+			.map(([tag]) => tag)
+	}
+
+	// Sum over the selected tags of how often a candidate appears alongside each of them
+	const scores = new Map<string, number>()
+	selected.forEach(tag => {
+		const total = stats.counts.get(tag) ?? 0
+		stats.pairs.get(tag)?.forEach((together, other) => {
+			if (selected.has(other)) return
+			scores.set(other, (scores.get(other) ?? 0) + together / total)
+		})
+	})
+
+	return Array.from(scores.entries())
+		.sort((a, b) => b[1] - a[1] || (stats.counts.get(b[0]) ?? 0) - (stats.counts.get(a[0]) ?? 0))
+		.slice(0, MAX_SUGGESTIONS)
+		.map(([tag]) => tag)
+}
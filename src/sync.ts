@@ -0,0 +1,265 @@
+import { App, Modal, Notice, Setting as PluginSettings, TFile, normalizePath } from 'obsidian'
+import ImageTagPlugin from './main'
+import { IMAGE_EXTENSIONS, ImageNote, collectImageNotes, isImageFile } from './library'
+import { FrontmatterKeys, OrphanAction } from './settings'
+
+// ==================== IMAGE NOTE SYNC ====================
+// Keeps image notes pointing at their image when it is renamed, moved or deleted
+
+// Notes whose `image:` field referred to the image at `oldPath`
+function findNotesForImage(app: App, oldPath: string, current: TFile | null, keys: FrontmatterKeys): ImageNote[] {
+	const oldName = oldPath.split('/').pop() || oldPath
+
+	return collectImageNotes(app, '', keys).filter(note => {
+		if (note.image === oldPath) return true
+		// A bare name only belongs to this image if it doesn't resolve to some other file
+		return note.image === oldName && (!note.imageFile || note.imageFile === current)
+	})
+}
+
+export async function syncRenamedImage(plugin: ImageTagPlugin, file: TFile, oldPath: string) {
+	if (!isImageFile(file)) return
+	const { app } = plugin
+	const keys = plugin.settings.frontmatterKeys
+
+	for (const note of findNotesForImage(app, oldPath, file, keys)) {
+		// Notes that stored the full path keep doing so; legacy bare names stay bare names
+		const newValue = note.image === oldPath ? file.path : file.name
+
+		try {
+			if (newValue !== note.image) {
+				await app.fileManager.processFrontMatter(note.file, (frontmatter: Record<string, unknown>) => {
+					frontmatter[keys.image] = newValue
+				})
+				await app.vault.process(note.file, (data) => data.split(`![[${note.image}`).join(`![[${newValue}`))
+			}
+
+			if (plugin.settings.renameNotesWithImages) {
+				await renameNoteToMatch(app, note.file, oldPath, file)
+			}
+		} catch (error) {
+			console.error(`Error updating ${note.file.path}:`, error)
+		}
+	}
+}
+
+// Rename a note that was named after the image, e.g. `sketch.md` for `sketch.png`
+async function renameNoteToMatch(app: App, noteFile: TFile, oldPath: string, image: TFile) {
+	const oldBaseName = (oldPath.split('/').pop() || oldPath).replace(/\.[^/.]+$/, '')
+	if (noteFile.basename !== oldBaseName || image.basename === oldBaseName) return
+
+	const parent = noteFile.parent?.path ?? ''
+	const safeName = image.basename.replace(/[<>:"/\\|?*]/g, '_')
+	const newPath = normalizePath(parent && parent !== '/' ? `${parent}/${safeName}.md` : `${safeName}.md`)
+
+	if (app.vault.getAbstractFileByPath(newPath)) return
+	await app.fileManager.renameFile(noteFile, newPath)
+}
+
+export async function syncDeletedImage(plugin: ImageTagPlugin, file: TFile) {
+	if (!isImageFile(file)) return
+
+	const notes = findNotesForImage(plugin.app, file.path, null, plugin.settings.frontmatterKeys)
+	if (notes.length === 0) return
+
+	let action = plugin.settings.orphanAction
+	if (action === 'ask') {
+		const modal = new OrphanNoteModal(plugin.app, file.name, notes.map(note => note.file))
+		modal.open()
+		action = await modal.promise
+	}
+
+	for (const note of notes) {
+		await applyOrphanAction(plugin, note.file, action)
+	}
+}
+
+export async function applyOrphanAction(plugin: ImageTagPlugin, noteFile: TFile, action: OrphanAction) {
+	const { app } = plugin
+
+	try {
+		if (action === 'delete') {
+			await app.fileManager.trashFile(noteFile)
+		} else if (action === 'archive') {
+			await archiveFile(plugin, noteFile)
+		}
+	} catch (error) {
+		console.error(`Error handling orphaned note ${noteFile.path}:`, error)
+		new Notice(`Failed to ${action} ${noteFile.name}`)
+	}
+}
+
+// Move a note (or image) into the archive folder
+export async function archiveFile(plugin: ImageTagPlugin, file: TFile) {
+	const { app } = plugin
+	const folder = normalizePath(plugin.settings.archiveFolder || 'Image Library/Archive')
+
+	if (!app.vault.getAbstractFileByPath(folder)) {
+		await app.vault.createFolder(folder)
+	}
+
+	// Avoid clobbering an earlier archived file of the same name
+	let target = normalizePath(`${folder}/${file.name}`)
+	let counter = 1
+	while (app.vault.getAbstractFileByPath(target)) {
+		target = normalizePath(`${folder}/${file.basename} ${counter}.${file.extension}`)
+		counter++
+	}
+
+	await app.fileManager.renameFile(file, target)
+}
+
+// ==================== ORPHAN NOTE MODAL ====================
+class OrphanNoteModal extends Modal {
+	public promise: Promise<OrphanAction>
+	private resolvePromise: (value: OrphanAction) => void
+	private resolved = false
+
+	constructor(app: App, imageName: string, notes: TFile[]) {
+		super(app)
+
+		this.promise = new Promise((resolve) => {
+			this.resolvePromise = resolve
+		})
+
+		this.titleEl.setText('Image deleted')
+		this.contentEl.createEl('p', {
+			text: `"${imageName}" was deleted. What should happen to its note${notes.length > 1 ? 's' : ''}?`
+		})
+
+		const list = this.contentEl.createEl('ul')
+		notes.forEach(note => list.createEl('li', { text: note.path }))
+
+		const btnContainer = this.contentEl.createDiv({ cls: 'modal-button-container' })
+
+		const choices: [string, OrphanAction][] = [
+			['Keep', 'keep'],
+			['Archive', 'archive'],
+			['Delete', 'delete'],
+		]
+		choices.forEach(([label, action]) => {
+			const btn = btnContainer.createEl('button', { text: label })
+			if (action === 'delete') btn.addClass('mod-warning')
+			btn.addEventListener('click', () => this.choose(action))
+		})
+	}
+
+	private choose(action: OrphanAction) {
+		this.resolved = true
+		this.resolvePromise(action)
+		this.close()
+	}
+
+	onClose() {
+		// Dismissing the modal keeps the notes untouched
+		if (!this.resolved) this.resolvePromise('keep')
+		this.contentEl.empty()
+	}
+}
+
+// ==================== LIBRARY AUDIT ====================
+export interface LibraryAudit {
+	// Notes whose `image:` no longer resolves to a file
+	orphanedNotes: ImageNote[]
+	// Image embeds inside image notes that point at nothing
+	missingImages: { note: TFile, link: string }[]
+}
+
+export function auditLibrary(app: App, archiveFolder: string, keys: FrontmatterKeys): LibraryAudit {
+	// Archived notes are orphans on purpose
+	const archivePrefix = archiveFolder ? `${normalizePath(archiveFolder)}/` : null
+	const notes = collectImageNotes(app, '', keys)
+		.filter(note => !archivePrefix || !note.file.path.startsWith(archivePrefix))
+	const orphanedNotes = notes.filter(note => !note.imageFile)
+
+	const missingImages: { note: TFile, link: string }[] = []
+	notes.forEach(note => {
+		const unresolved = app.metadataCache.unresolvedLinks[note.file.path] ?? {}
+		Object.keys(unresolved)
+			.filter(link => IMAGE_EXTENSIONS.some(ext => link.toLowerCase().endsWith(ext)))
+			.forEach(link => missingImages.push({ note: note.file, link }))
+	})
+
+	return { orphanedNotes, missingImages }
+}
+
+export class LibraryAuditModal extends Modal {
+	plugin: ImageTagPlugin
+
+	constructor(app: App, plugin: ImageTagPlugin) {
+		super(app)
+		this.plugin = plugin
+	}
+
+	onOpen() {
+		this.render()
+	}
+
+	render() {
+		const { contentEl } = this
+		contentEl.empty()
+
+		const audit = auditLibrary(this.app, this.plugin.settings.archiveFolder, this.plugin.settings.frontmatterKeys)
+		this.titleEl.setText('Image library audit')
+
+		if (audit.orphanedNotes.length === 0 && audit.missingImages.length === 0) {
+			contentEl.createEl('p', { text: 'No problems found. Every image note points at an existing image.' })
+			return
+		}
+
+		// Orphaned notes
+		new PluginSettings(contentEl)
+			.setName(`Orphaned notes (${audit.orphanedNotes.length})`)
+			.setDesc('Notes whose image no longer exists')
+			.setHeading()
+
+		audit.orphanedNotes.forEach(note => {
+			new PluginSettings(contentEl)
+				.setName(note.file.path)
+				.setDesc(`Image: ${note.image}`)
+				.addButton(btn => btn
+					.setButtonText('Open')
+					.onClick(() => this.openNote(note.file)))
+				.addButton(btn => btn
+					.setButtonText('Archive')
+					.onClick(async () => {
+						await applyOrphanAction(this.plugin, note.file, 'archive')
+						this.render()
+					}))
+				.addButton(btn => btn
+					.setButtonText('Delete')
+					.setWarning()
+					.onClick(async () => {
+						await applyOrphanAction(this.plugin, note.file, 'delete')
+						this.render()
+					}))
+		})
+
+		// Broken embeds
+		new PluginSettings(contentEl)
+			.setName(`Missing images (${audit.missingImages.length})`)
+			.setDesc('Image embeds in image notes that point at nothing')
+			.setHeading()
+
+		audit.missingImages.forEach(({ note, link }) => {
+			new PluginSettings(contentEl)
+				.setName(link)
+				.setDesc(note.path)
+				.addButton(btn => btn
+					.setButtonText('Open')
+					.onClick(() => this.openNote(note)))
+		})
+	}
+
+	private openNote(file: TFile) {
+		this.app.workspace.getLeaf(true).openFile(file).catch(error => {
+			console.error(error)
+		})
+		this.close()
+	}
+
+	onClose() {
+		const { contentEl } = this
+		contentEl.empty()
+	}
+}
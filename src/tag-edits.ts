@@ -0,0 +1,655 @@
+import { App, Modal, Notice, TFile, getFrontMatterInfo, moment, normalizePath, parseYaml, stringifyYaml } from 'obsidian'
+import ImageTagPlugin from './main'
+import { FrontmatterKeys, TagCategory } from './settings'
+import { isInTagScope } from './scope'
+import { isTagOrDescendant, replaceTagPrefix } from './tags'
+
+// ==================== BULK TAG EDITS ====================
+// Vault-wide rename, delete, merge and alias normalization are planned first: every affected file is read
+// and rewritten in memory, so the result can be previewed. Applying a plan edits frontmatter through
+// `processFrontMatter` and inline tags through a tokenizer, and journals the original contents for undo.
+
+// New name for a tag found in a note, or null to remove it
+export type TagRewrite = (tag: string) => string | null
+
+// Planned edit of one file; `before === after` when the file needs no change
+export interface TagChange {
+	file: TFile
+	before: string
+	after: string
+	rewrite: TagRewrite
+}
+
+// Outcome of rewriting tags in one file
+export interface TagRewriteResult {
+	file: TFile
+	changed: boolean
+	error?: string
+}
+
+// `tag` and its nested tags move below `edit`
+export function renameTag(tag: string, edit: string): TagRewrite {
+	return (t) => replaceTagPrefix(t, tag, edit)
+}
+
+// `tag` and its nested tags are dropped
+export function removeTag(tag: string): TagRewrite {
+	return (t) => isTagOrDescendant(t, tag) ? null : t
+}
+
+// Rename several tags in turn
+function renameTags(pairs: [string, string][]): TagRewrite {
+	return (t) => pairs.reduce((result, [from, to]) => replaceTagPrefix(result, from, to), t)
+}
+
+// ==================== INLINE TAG TOKENIZER ====================
+// Finds `#tags` the way Obsidian does: a `#` at the start of a line or after whitespace, followed by tag characters
+// and at least one non-digit. Code blocks, inline code and link targets are skipped.
+
+export interface InlineTag {
+	// Offset of the `#`
+	start: number
+	// Offset just past the last tag character
+	end: number
+	// Tag without the `#`
+	tag: string
+}
+
+// Everything except whitespace and punctuation other than `-`, `_` and `/`
+const TAG_CHAR = /[^\s!"#$%&'()*+,.:;<=>?@[\]^`{|}~\\]/
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+
+export function findInlineTags(text: string): InlineTag[] {
+	const tags: InlineTag[] = []
+	let fence: string | null = null
+	let offset = 0
+
+	text.split('\n').forEach(line => {
+		const marker = line.match(FENCE)?.[1]
+		if (fence) {
+			// A fence closes with at least as many of the same character and nothing else
+			if (marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) fence = null
+		} else if (marker) {
+			fence = marker
+		} else {
+			scanLine(line, offset, tags)
+		}
+		offset += line.length + 1
+	})
+
+	return tags
+}
+
+function scanLine(line: string, offset: number, tags: InlineTag[]) {
+	let i = 0
+	while (i < line.length) {
+		const char = line[i]
+
+		// Inline code runs until a backtick run of the same length
+		if (char === '`') {
+			let run = 1
+			while (line[i + run] === '`') run++
+			const close = line.indexOf('`'.repeat(run), i + run)
+			i = close === -1 ? i + run : close + run
+			continue
+		}
+
+		// Wikilinks and markdown link targets may contain `#heading` anchors
+		if (line.startsWith('[[', i) || line.startsWith('](', i)) {
+			const close = line.indexOf(char === '[' ? ']]' : ')', i + 2)
+			if (close !== -1) {
+				i = close + 1
+				continue
+			}
+		}
+
+		if (char === '#' && (i === 0 || /\s/.test(line[i - 1] ?? ''))) {
+			let end = i + 1
+			while (end < line.length && TAG_CHAR.test(line[end] ?? '')) end++
+
+			const tag = line.slice(i + 1, end)
+			if (/[^\d/]/.test(tag)) tags.push({ start: offset + i, end: offset + end, tag })
+			i = Math.max(end, i + 1)
+			continue
+		}
+
+		i++
+	}
+}
+
+// Rewrite or remove inline tags; removed tags take one neighbouring space with them
+export function rewriteInlineTags(text: string, rewrite: TagRewrite): string {
+	let result = text
+
+	// Back to front, so earlier offsets stay valid
+	findInlineTags(text).reverse().forEach(({ start, end, tag }) => {
+		const next = rewrite(tag)
+		if (next === tag) return
+
+		if (next !== null) {
+			result = result.slice(0, start) + `#${next}` + result.slice(end)
+			return
+		}
+
+		let from = start
+		let to = end
+		if (from > 0 && /[ \t]/.test(result[from - 1] ?? '')) {
+			from--
+		} else if (/[ \t]/.test(result[to] ?? '')) {
+			to++
+		}
+		result = result.slice(0, from) + result.slice(to)
+	})
+
+	return result
+}
+
+// ==================== FRONTMATTER TAGS ====================
+// Fields holding tags: Obsidian's `tags` and `tag`, the key image notes use, and the `aliases`/`alias` variants
+const ALIAS_KEYS = ['aliases', 'alias']
+
+function getTagKeys(keys: FrontmatterKeys): string[] {
+	return [...new Set(['tags', 'tag', keys.tags, ...ALIAS_KEYS])]
+}
+
+// Entries of a field; aliases are titles that may contain spaces, so only commas separate them
+function splitFieldValue(key: string, value: string): string[] {
+	const separator = ALIAS_KEYS.includes(key) ? /\s*,\s*/ : /[,\s]+/
+	return value.split(separator).filter(Boolean)
+}
+
+// Rewrite the tags of every tag field, returning whether anything changed. Handles inline and block lists
+// (both parse to arrays), plain strings of comma or space separated tags (comma only for aliases), and `#` prefixes.
+export function rewriteFrontmatterTags(frontmatter: Record<string, unknown>, rewrite: TagRewrite, keys: FrontmatterKeys): boolean {
+	let changed = false
+
+	getTagKeys(keys).forEach(key => {
+		const value = frontmatter[key]
+		if (!Array.isArray(value) && typeof value !== 'string') return
+
+		const items: unknown[] = Array.isArray(value) ? value : splitFieldValue(key, value)
+		const seen = new Set<string>()
+		const result: unknown[] = []
+
+		items.forEach(item => {
+			if (typeof item !== 'string' && typeof item !== 'number') {
+				result.push(item)
+				return
+			}
+
+			const raw = String(item)
+			const prefix = raw.startsWith('#') ? '#' : ''
+			const tag = raw.slice(prefix.length)
+			const next = rewrite(tag)
+			if (next === null) return
+
+			// The new name may already be on the note, so drop the duplicate
+			if (seen.has(next.toLowerCase())) return
+			seen.add(next.toLowerCase())
+
+			result.push(next === tag ? item : prefix + next)
+		})
+
+		if (result.length === items.length && result.every((item, i) => item === items[i])) return
+
+		// A string stays a string; splitting it only produced strings
+		frontmatter[key] = Array.isArray(value) ? result : (result as string[]).join(', ')
+		changed = true
+	})
+
+	return changed
+}
+
+// The file as it will look after the rewrite, for previews
+export function rewriteTagsInContent(content: string, rewrite: TagRewrite, keys: FrontmatterKeys): string {
+	const info = getFrontMatterInfo(content)
+	let head = content.slice(0, info.contentStart)
+
+	if (info.exists) {
+		try {
+			const frontmatter: unknown = parseYaml(info.frontmatter)
+			if (frontmatter && typeof frontmatter === 'object') {
+				const data = frontmatter as Record<string, unknown>
+				if (rewriteFrontmatterTags(data, rewrite, keys)) {
+					let yaml = stringifyYaml(data)
+					if (!info.frontmatter.endsWith('\n')) yaml = yaml.replace(/\n$/, '')
+					head = content.slice(0, info.from) + yaml + content.slice(info.to, info.contentStart)
+				}
+			}
+		} catch (error) {
+			console.warn('ImageTag: Skipping invalid frontmatter:', error)
+		}
+	}
+
+	return head + rewriteInlineTags(content.slice(info.contentStart), rewrite)
+}
+
+// ==================== PLANNING ====================
+async function planChanges(plugin: ImageTagPlugin, files: TFile[], rewrite: TagRewrite): Promise<TagChange[]> {
+	const keys = plugin.settings.frontmatterKeys
+	const changes: TagChange[] = []
+
+	for (const file of files) {
+		try {
+			const before = await plugin.app.vault.read(file)
+			changes.push({ file, before, after: rewriteTagsInContent(before, rewrite, keys), rewrite })
+		} catch (error) {
+			console.error(`Error reading ${file.path}:`, error)
+		}
+	}
+	return changes
+}
+
+// Files carrying any of the tags (or a tag nested below one). The index doesn't cover `aliases`,
+// so files in scope are checked for those separately.
+function filesWithTags(plugin: ImageTagPlugin, tags: string[]): TFile[] {
+	const { app, settings } = plugin
+	const files = new Set<TFile>()
+	tags.forEach(tag => plugin.tagIndex.getFiles(tag).forEach(file => files.add(file)))
+
+	app.vault.getMarkdownFiles().forEach(file => {
+		if (files.has(file)) return
+		const cache = app.metadataCache.getFileCache(file)
+		const frontmatter = cache?.frontmatter
+		if (!frontmatter || !isInTagScope(settings, file, cache)) return
+
+		const hasTag = ALIAS_KEYS.some(key => {
+			const value: unknown = frontmatter[key]
+			const items: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? splitFieldValue(key, value) : []
+			return items.some(item => {
+				if (typeof item !== 'string' && typeof item !== 'number') return false
+				const entry = String(item).replace(/^#/, '')
+				return tags.some(tag => isTagOrDescendant(entry, tag))
+			})
+		})
+		if (hasTag) files.add(file)
+	})
+	return Array.from(files)
+}
+
+export function planTagRename(plugin: ImageTagPlugin, tag: string, edit: string): Promise<TagChange[]> {
+	return planChanges(plugin, filesWithTags(plugin, [tag]), renameTag(tag, edit))
+}
+
+export function planTagRemoval(plugin: ImageTagPlugin, tag: string): Promise<TagChange[]> {
+	return planChanges(plugin, filesWithTags(plugin, [tag]), removeTag(tag))
+}
+
+// Nested sources go first, so `a/b` merges into the target before `a` would move it to `target/b`
+export function getMergeOrder(tags: string[], target: string): string[] {
+	return tags
+		.filter(tag => tag !== target)
+		.sort((a, b) => b.split('/').length - a.split('/').length)
+}
+
+export function planTagMerge(plugin: ImageTagPlugin, tags: string[], target: string): Promise<TagChange[]> {
+	const sources = getMergeOrder(tags, target)
+	return planChanges(plugin, filesWithTags(plugin, sources), renameTags(sources.map(tag => [tag, target])))
+}
+
+// Every alias in use, paired with its canonical tag
+export function getAliasesInUse(plugin: ImageTagPlugin): [string, string][] {
+	const pairs: [string, string][] = []
+	Object.entries(plugin.settings.tagAliases).forEach(([canonical, synonyms]) => {
+		synonyms
+			.filter(alias => plugin.tagIndex.getCount(alias) > 0)
+			.forEach(alias => pairs.push([alias, canonical]))
+	})
+	return pairs
+}
+
+export function planAliasNormalization(plugin: ImageTagPlugin): Promise<TagChange[]> {
+	const pairs = getAliasesInUse(plugin)
+	return planChanges(plugin, filesWithTags(plugin, pairs.map(([alias]) => alias)), renameTags(pairs))
+}
+
+export function countChanged(changes: TagChange[]): number {
+	return changes.filter(change => change.before !== change.after).length
+}
+
+// ==================== APPLYING AND JOURNAL ====================
+interface JournalFile {
+	path: string
+	before: string
+	after: string
+}
+
+interface JournalEntry {
+	label: string
+	timestamp: number
+	files: JournalFile[]
+	tagsBefore: string[]
+	tagsAfter: string[]
+	aliasesBefore: Record<string, string[]>
+	aliasesAfter: Record<string, string[]>
+	// Missing in entries journaled before categories existed
+	categoriesBefore?: TagCategory[]
+	categoriesAfter?: TagCategory[]
+}
+
+// Original contents of the files touched by the last bulk edits, stored next to the plugin's data
+export class TagEditJournal {
+	plugin: ImageTagPlugin
+	private entries: JournalEntry[] | null = null
+
+	constructor(plugin: ImageTagPlugin) {
+		this.plugin = plugin
+	}
+
+	private get path(): string {
+		const { manifest, app } = this.plugin
+		const dir = manifest.dir ?? `${app.vault.configDir}/plugins/${manifest.id}`
+		return normalizePath(`${dir}/tag-journal.json`)
+	}
+
+	private async load(): Promise<JournalEntry[]> {
+		if (this.entries) return this.entries
+
+		const { adapter } = this.plugin.app.vault
+		try {
+			this.entries = await adapter.exists(this.path)
+				? JSON.parse(await adapter.read(this.path)) as JournalEntry[]
+				: []
+		} catch (error) {
+			console.error('ImageTag: Could not read the tag edit journal:', error)
+			this.entries = []
+		}
+		return this.entries
+	}
+
+	private async save() {
+		await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.entries ?? []))
+	}
+
+	async record(entry: JournalEntry) {
+		const entries = await this.load()
+		entries.push(entry)
+		entries.splice(0, Math.max(0, entries.length - this.plugin.settings.undoJournalSize))
+		await this.save()
+	}
+
+	async peek(): Promise<JournalEntry | undefined> {
+		const entries = await this.load()
+		return entries[entries.length - 1]
+	}
+
+	async pop(): Promise<JournalEntry | undefined> {
+		const entry = (await this.load()).pop()
+		await this.save()
+		return entry
+	}
+
+	async clear() {
+		this.entries = []
+		await this.save()
+	}
+}
+
+// Write a plan, update settings, and journal the edit so it can be undone
+export async function applyTagChanges(
+	plugin: ImageTagPlugin,
+	label: string,
+	changes: TagChange[],
+	updateSettings: () => Promise<void>
+): Promise<TagRewriteResult[]> {
+	const { app, settings } = plugin
+	const keys = settings.frontmatterKeys
+	const tagsBefore = [...settings.tags]
+	const aliasesBefore = { ...settings.tagAliases }
+	const categoriesBefore = [...settings.tagCategories]
+
+	const results: TagRewriteResult[] = []
+	const journaled: JournalFile[] = []
+
+	for (const change of changes) {
+		if (change.before === change.after) {
+			results.push({ file: change.file, changed: false })
+			continue
+		}
+
+		const { file, rewrite } = change
+		try {
+			// Never overwrite edits made after the plan was computed
+			if (await app.vault.read(file) !== change.before) throw new Error('File changed since the preview')
+
+			const info = getFrontMatterInfo(change.before)
+			const frontmatterChanges = info.exists && change.before.slice(0, info.contentStart) !== change.after.slice(0, getFrontMatterInfo(change.after).contentStart)
+			if (frontmatterChanges) {
+				await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+					rewriteFrontmatterTags(frontmatter, rewrite, keys)
+				})
+			}
+
+			await app.vault.process(file, (data) => {
+				const start = getFrontMatterInfo(data).contentStart
+				return data.slice(0, start) + rewriteInlineTags(data.slice(start), rewrite)
+			})
+
+			// `processFrontMatter` formats the YAML its own way, so journal what was actually written
+			journaled.push({ path: file.path, before: change.before, after: await app.vault.read(file) })
+			results.push({ file, changed: true })
+		} catch (error) {
+			console.error(`Error processing ${file.path}:`, error)
+			results.push({ file, changed: false, error: String(error) })
+		}
+	}
+
+	await updateSettings()
+
+	if (plugin.settings.undoJournalSize > 0) {
+		await plugin.tagJournal.record({
+			label,
+			timestamp: Date.now(),
+			files: journaled,
+			tagsBefore,
+			tagsAfter: [...plugin.settings.tags],
+			aliasesBefore,
+			aliasesAfter: { ...plugin.settings.tagAliases },
+			categoriesBefore,
+			categoriesAfter: [...plugin.settings.tagCategories]
+		})
+	}
+
+	return results
+}
+
+// Restore the files and tags of the most recent bulk edit; files edited since then are left alone
+export async function undoLastTagEdit(plugin: ImageTagPlugin) {
+	const { app, settings } = plugin
+	const entry = await plugin.tagJournal.peek()
+	if (!entry) {
+		new Notice('No bulk tag edit to undo')
+		return
+	}
+
+	const confirmed = await plugin.showCriticalWarning(
+		'Undo bulk tag edit',
+		{
+			txt: `${entry.label} (${moment(entry.timestamp).fromNow()})`,
+			txt1: `${entry.files.length} file${entry.files.length === 1 ? '' : 's'} will be restored to their previous contents.`
+		},
+		'Undo'
+	)
+	if (!confirmed) return
+
+	await plugin.tagJournal.pop()
+
+	const skipped: string[] = []
+	let restored = 0
+	for (const journaled of entry.files) {
+		const file = app.vault.getFileByPath(journaled.path)
+		if (!file) {
+			skipped.push(journaled.path)
+			continue
+		}
+
+		try {
+			let conflict = false
+			await app.vault.process(file, (data) => {
+				if (data !== journaled.after) {
+					conflict = true
+					return data
+				}
+				return journaled.before
+			})
+			if (conflict) {
+				skipped.push(journaled.path)
+			} else {
+				restored++
+			}
+		} catch (error) {
+			console.error(`Error restoring ${journaled.path}:`, error)
+			skipped.push(journaled.path)
+		}
+	}
+
+	// Undo the edit's own changes to the tag list, keeping tags added since
+	const added = entry.tagsAfter.filter(tag => !entry.tagsBefore.includes(tag))
+	const removed = entry.tagsBefore.filter(tag => !entry.tagsAfter.includes(tag))
+	settings.tags = [...new Set([...settings.tags.filter(tag => !added.includes(tag)), ...removed])]
+	if (JSON.stringify(settings.tagAliases) === JSON.stringify(entry.aliasesAfter)) {
+		settings.tagAliases = { ...entry.aliasesBefore }
+	}
+	if (entry.categoriesBefore && JSON.stringify(settings.tagCategories) === JSON.stringify(entry.categoriesAfter)) {
+		settings.tagCategories = [...entry.categoriesBefore]
+	}
+	await plugin.saveSettings()
+	plugin.refreshTagManager()
+
+	if (skipped.length > 0) {
+		console.warn('ImageTag: Files not restored because they changed or moved since the edit:', skipped)
+		new Notice(`Restored ${restored} file${restored === 1 ? '' : 's'}; ${skipped.length} changed since the edit and were left alone`)
+	} else {
+		new Notice(`Undid "${entry.label}": restored ${restored} file${restored === 1 ? '' : 's'}`)
+	}
+}
+
+// ==================== LINE DIFF ====================
+export interface DiffLine {
+	type: 'add' | 'remove'
+	// 1-based line number in the old (remove) or new (add) text
+	line: number
+	text: string
+}
+
+// Above this many cells the middle section is shown as a plain replacement instead of an LCS diff
+const MAX_DIFF_CELLS = 250000
+
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n')
+	const b = after.split('\n')
+
+	// Bulk edits are usually local, so trim the shared head and tail first
+	let start = 0
+	while (start < a.length && start < b.length && a[start] === b[start]) start++
+	let endA = a.length
+	let endB = b.length
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--
+		endB--
+	}
+
+	const oldMiddle = a.slice(start, endA)
+	const newMiddle = b.slice(start, endB)
+	const diff: DiffLine[] = []
+
+	if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+		oldMiddle.forEach((text, i) => diff.push({ type: 'remove', line: start + i + 1, text }))
+		newMiddle.forEach((text, i) => diff.push({ type: 'add', line: start + i + 1, text }))
+		return diff
+	}
+
+	// Longest common subsequence table, filled from the end
+	const n = oldMiddle.length
+	const m = newMiddle.length
+	const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i]![j] = oldMiddle[i] === newMiddle[j]
+				? (lcs[i + 1]![j + 1] ?? 0) + 1
+				: Math.max(lcs[i + 1]![j] ?? 0, lcs[i]![j + 1] ?? 0)
+		}
+	}
+
+	let i = 0
+	let j = 0
+	while (i < n || j < m) {
+		if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+			i++
+			j++
+		} else if (i < n && (j === m || (lcs[i + 1]![j] ?? 0) >= (lcs[i]![j + 1] ?? 0))) {
+			diff.push({ type: 'remove', line: start + i + 1, text: oldMiddle[i] ?? '' })
+			i++
+		} else {
+			diff.push({ type: 'add', line: start + j + 1, text: newMiddle[j] ?? '' })
+			j++
+		}
+	}
+
+	return diff
+}
+
+// ==================== PREVIEW MODAL ====================
+// Files listed in full; the rest are only counted
+const MAX_PREVIEW_FILES = 100
+
+export class TagChangePreviewModal extends Modal {
+	public promise: Promise<boolean>
+	private resolvePromise: (value: boolean) => void
+	private resolved = false
+
+	constructor(app: App, title: string, description: string, changes: TagChange[], confirmText: string) {
+		super(app)
+
+		this.promise = new Promise((resolve) => {
+			this.resolvePromise = resolve
+		})
+
+		const changed = changes.filter(change => change.before !== change.after)
+
+		this.modalEl.addClass('tag-preview-modal')
+		this.titleEl.setText(title)
+		this.contentEl.createEl('p', { text: description })
+		this.contentEl.createEl('p', {
+			text: `${changed.length} file${changed.length === 1 ? '' : 's'} will change. You can undo this with the "Undo last bulk tag edit" command.`,
+			cls: 'tag-instruction'
+		})
+
+		const list = this.contentEl.createDiv('tag-preview-list')
+		changed.slice(0, MAX_PREVIEW_FILES).forEach(change => {
+			const details = list.createEl('details', { cls: 'tag-preview-file' })
+			const diff = diffLines(change.before, change.after)
+			details.createEl('summary', { text: `${change.file.path} (${diff.length} line${diff.length === 1 ? '' : 's'})` })
+
+			const diffEl = details.createDiv('tag-preview-diff')
+			diff.forEach(line => {
+				const row = diffEl.createDiv(`tag-diff-line tag-diff-${line.type}`)
+				row.createSpan({ text: String(line.line), cls: 'tag-diff-number' })
+				row.createSpan({ text: `${line.type === 'add' ? '+' : '-'} ${line.text}` })
+			})
+		})
+		if (changed.length > MAX_PREVIEW_FILES) {
+			list.createEl('p', { text: `…and ${changed.length - MAX_PREVIEW_FILES} more`, cls: 'tag-instruction' })
+		}
+
+		const btnContainer = this.contentEl.createDiv({ cls: 'modal-button-container' })
+
+		const cancelBtn = btnContainer.createEl('button', { text: 'Cancel' })
+		cancelBtn.addEventListener('click', () => this.choose(false))
+
+		const confirmBtn = btnContainer.createEl('button', { text: confirmText, cls: 'mod-warning' })
+		confirmBtn.disabled = changed.length === 0
+		confirmBtn.addEventListener('click', () => this.choose(true))
+	}
+
+	private choose(confirmed: boolean) {
+		this.resolved = true
+		this.resolvePromise(confirmed)
+		this.close()
+	}
+
+	onClose() {
+		if (!this.resolved) this.resolvePromise(false)
+		this.contentEl.empty()
+	}
+}
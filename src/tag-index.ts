@@ -0,0 +1,126 @@
+import { App, CachedMetadata, Events, TFile, debounce } from 'obsidian'
+import { getNoteTags } from './library'
+import { getTagAncestors } from './tags'
+
+// ==================== TAG INDEX ====================
+// In-memory tag -> files lookup, built once from the metadata cache and then kept current
+// from metadata and vault events. Counts roll up, so `anatomy/hands` also counts for `anatomy`.
+// Listeners subscribe with `on('changed', ...)`; bursts of edits are coalesced into one event.
+// Only files accepted by `inScope` are indexed; call `build()` again when the scope or the tags field changes.
+export class TagIndex extends Events {
+	app: App
+	inScope: (file: TFile, cache: CachedMetadata | null) => boolean
+	// Frontmatter field image notes keep their tags in, besides `tags` and `tag`
+	getTagsKey: () => string
+	private fileTags: Map<string, Set<string>> = new Map()
+	private tagFiles: Map<string, Set<string>> = new Map()
+
+	private requestNotify = debounce(() => this.trigger('changed'), 300, true)
+
+	constructor(app: App, inScope: (file: TFile, cache: CachedMetadata | null) => boolean = () => true, getTagsKey: () => string = () => 'tags') {
+		super()
+		this.app = app
+		this.inScope = inScope
+		this.getTagsKey = getTagsKey
+	}
+
+	build() {
+		this.fileTags.clear()
+		this.tagFiles.clear()
+
+		this.app.vault.getMarkdownFiles().forEach(file => {
+			const cache = this.app.metadataCache.getFileCache(file)
+			if (cache && this.inScope(file, cache)) this.indexFile(file.path, cache)
+		})
+
+		this.trigger('changed')
+	}
+
+	updateFile(file: TFile, cache: CachedMetadata) {
+		const previous = this.fileTags.get(file.path)
+		this.removeFromIndex(file.path)
+		// Frontmatter edits can move a file in or out of scope
+		if (this.inScope(file, cache)) this.indexFile(file.path, cache)
+
+		// Body edits that don't touch tags shouldn't re-render anything
+		if (!sameTags(previous, this.fileTags.get(file.path))) {
+			this.requestNotify()
+		}
+	}
+
+	removeFile(path: string) {
+		if (!this.fileTags.has(path)) return
+		this.removeFromIndex(path)
+		this.requestNotify()
+	}
+
+	renameFile(file: TFile, oldPath: string) {
+		const wasIndexed = this.fileTags.has(oldPath)
+		this.removeFromIndex(oldPath)
+
+		// Moving a file can take it in or out of a folder scope
+		const cache = this.app.metadataCache.getFileCache(file)
+		if (cache && this.inScope(file, cache)) this.indexFile(file.path, cache)
+
+		if (wasIndexed || this.fileTags.has(file.path)) this.requestNotify()
+	}
+
+	// Number of files carrying the tag or one of its nested tags
+	getCount(tag: string): number {
+		return this.tagFiles.get(tag.toLowerCase())?.size ?? 0
+	}
+
+	// Files carrying the tag or one of its nested tags
+	getFiles(tag: string): TFile[] {
+		const paths = this.tagFiles.get(tag.toLowerCase())
+		if (!paths) return []
+
+		const files: TFile[] = []
+		paths.forEach(path => {
+			const file = this.app.vault.getAbstractFileByPath(path)
+			if (file instanceof TFile) files.push(file)
+		})
+		return files
+	}
+
+	// Every tag (including implied parents) present in the vault
+	getTags(): string[] {
+		return Array.from(this.tagFiles.keys())
+	}
+
+	private indexFile(path: string, cache: CachedMetadata) {
+		const tags = new Set<string>()
+		getNoteTags(cache, this.getTagsKey()).forEach(tag => {
+			getTagAncestors(tag).forEach(t => tags.add(t))
+		})
+
+		if (tags.size > 0) this.addToIndex(path, tags)
+	}
+
+	private addToIndex(path: string, tags: Set<string>) {
+		this.fileTags.set(path, tags)
+		tags.forEach(tag => {
+			let files = this.tagFiles.get(tag)
+			if (!files) {
+				files = new Set()
+				this.tagFiles.set(tag, files)
+			}
+			files.add(path)
+		})
+	}
+
+	private removeFromIndex(path: string) {
+		this.fileTags.get(path)?.forEach(tag => {
+			const files = this.tagFiles.get(tag)
+			if (!files) return
+			files.delete(path)
+			if (files.size === 0) this.tagFiles.delete(tag)
+		})
+		this.fileTags.delete(path)
+	}
+}
+
+function sameTags(a: Set<string> | undefined, b: Set<string> | undefined): boolean {
+	if ((a?.size ?? 0) !== (b?.size ?? 0)) return false
+	return Array.from(a ?? []).every(tag => b?.has(tag))
+}
@@ -0,0 +1,224 @@
+import { App, Modal, Notice, TFile } from 'obsidian'
+import ImageTagPlugin from './main'
+import { getNoteTags } from './library'
+import { isInTagScope } from './scope'
+import { cleanTag } from './tags'
+
+// ==================== VAULT TAG SCAN ====================
+// Tags come from the metadata cache, so only real tags are found: frontmatter tags (including the configured
+// tags field) and inline `#tags`, never list items or headings. Discovered tags are reviewed before anything is imported.
+
+export interface DiscoveredTag {
+	tag: string
+	files: TFile[]
+}
+
+// Tags used in the notes inside the tag scope that the tag manager doesn't have yet, most used first
+export function scanVaultTags(plugin: ImageTagPlugin): DiscoveredTag[] {
+	const { app, settings } = plugin
+	const found = new Map<string, Set<TFile>>()
+
+	app.vault.getMarkdownFiles().forEach(file => {
+		const cache = app.metadataCache.getFileCache(file)
+		if (!cache || !isInTagScope(settings, file, cache)) return
+
+		getNoteTags(cache, settings.frontmatterKeys.tags).forEach(raw => {
+			const tag = cleanTag(raw)
+			if (!tag) return
+			let files = found.get(tag)
+			if (!files) {
+				files = new Set()
+				found.set(tag, files)
+			}
+			files.add(file)
+		})
+	})
+
+	// Aliases resolve to a tag of their own, so they aren't offered for import
+	return Array.from(found.entries())
+		.filter(([tag]) => !settings.tags.includes(tag) && plugin.resolveAlias(tag) === tag)
+		.map(([tag, files]) => ({ tag, files: Array.from(files) }))
+		.sort((a, b) => b.files.length - a.files.length || a.tag.localeCompare(b.tag))
+}
+
+// Scan and open the review, or report that there is nothing new
+export function reviewVaultTags(plugin: ImageTagPlugin) {
+	const discovered = scanVaultTags(plugin)
+	const ignored = discovered.filter(entry => plugin.settings.ignoredTags.includes(entry.tag)).length
+	if (discovered.length === ignored) {
+		new Notice(ignored > 0 ? `No new tags found in vault (${ignored} ignored)` : 'No new tags found in vault')
+		return
+	}
+	new TagScanReviewModal(plugin.app, plugin, discovered).open()
+}
+
+// ==================== SCAN REVIEW MODAL ====================
+// Example files shown per tag
+const MAX_EXAMPLES = 3
+
+export class TagScanReviewModal extends Modal {
+	plugin: ImageTagPlugin
+	discovered: DiscoveredTag[]
+	selected: Set<string>
+	ignored: Set<string>
+	filter = ''
+	showIgnored = false
+	listEl: HTMLElement
+	applyBtn: HTMLButtonElement
+
+	constructor(app: App, plugin: ImageTagPlugin, discovered: DiscoveredTag[]) {
+		super(app)
+		this.plugin = plugin
+		this.discovered = discovered
+		this.ignored = new Set(plugin.settings.ignoredTags)
+		// New tags start selected; ignored ones stay out unless picked again
+		this.selected = new Set(discovered.map(entry => entry.tag).filter(tag => !this.ignored.has(tag)))
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		this.modalEl.addClass('tag-scan-modal')
+		this.titleEl.setText('Review discovered tags')
+
+		const newCount = this.discovered.filter(entry => !this.ignored.has(entry.tag)).length
+		contentEl.createEl('p', {
+			text: `${newCount} tag${newCount === 1 ? '' : 's'} found in your notes that the tag manager doesn't have yet. Ignored tags won't be offered again.`,
+			cls: 'tag-instruction'
+		})
+
+		const controls = contentEl.createDiv('tag-scan-controls')
+		const filterInput = controls.createEl('input', {
+			type: 'text',
+			placeholder: 'Filter tags...',
+			cls: 'tag-search-input'
+		})
+		filterInput.addEventListener('input', () => {
+			this.filter = filterInput.value.trim().toLowerCase()
+			this.renderList()
+		})
+
+		const selectAll = controls.createEl('button', { text: 'All' })
+		selectAll.addEventListener('click', () => this.setVisibleSelected(true))
+		const selectNone = controls.createEl('button', { text: 'None' })
+		selectNone.addEventListener('click', () => this.setVisibleSelected(false))
+
+		const ignoredCount = this.discovered.filter(entry => this.ignored.has(entry.tag)).length
+		if (ignoredCount > 0) {
+			const toggle = controls.createEl('button', { text: `Show ignored (${ignoredCount})` })
+			toggle.addEventListener('click', () => {
+				this.showIgnored = !this.showIgnored
+				toggle.setText(this.showIgnored ? 'Hide ignored' : `Show ignored (${ignoredCount})`)
+				this.renderList()
+			})
+		}
+
+		this.listEl = contentEl.createDiv('tag-scan-list')
+
+		const btnContainer = contentEl.createDiv({ cls: 'modal-button-container' })
+		const cancelBtn = btnContainer.createEl('button', { text: 'Cancel' })
+		cancelBtn.addEventListener('click', () => this.close())
+
+		this.applyBtn = btnContainer.createEl('button', { cls: 'mod-cta' })
+		this.applyBtn.addEventListener('click', () => {
+			this.apply().catch(error => {
+				console.error('Failed to import tags:', error)
+				new Notice('Failed to import tags')
+			})
+		})
+
+		this.renderList()
+		filterInput.focus()
+	}
+
+	private get visible(): DiscoveredTag[] {
+		return this.discovered.filter(entry =>
+			(this.showIgnored || !this.ignored.has(entry.tag)) &&
+			(!this.filter || entry.tag.includes(this.filter))
+		)
+	}
+
+	renderList() {
+		this.listEl.empty()
+
+		const visible = this.visible
+		if (visible.length === 0) {
+			this.listEl.createEl('p', { text: 'No tags match the filter.', cls: 'tag-scan-empty' })
+		}
+
+		visible.forEach(entry => {
+			const isIgnored = this.ignored.has(entry.tag)
+			const row = this.listEl.createDiv('tag-scan-row')
+			row.toggleClass('is-ignored', isIgnored)
+
+			const checkbox = row.createEl('input', { type: 'checkbox' })
+			checkbox.checked = this.selected.has(entry.tag)
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(entry.tag)
+					// Picking an ignored tag takes it off the ignore list
+					this.ignored.delete(entry.tag)
+				} else {
+					this.selected.delete(entry.tag)
+				}
+				this.renderList()
+			})
+
+			const info = row.createDiv('tag-scan-info')
+			info.createSpan({ text: entry.tag, cls: 'tag-scan-name' })
+			info.createSpan({ text: String(entry.files.length), cls: 'tag-scan-count' })
+
+			const examples = entry.files.slice(0, MAX_EXAMPLES).map(file => file.basename).join(', ')
+			const more = entry.files.length > MAX_EXAMPLES ? ` and ${entry.files.length - MAX_EXAMPLES} more` : ''
+			info.createDiv({
+				text: `${examples}${more}`,
+				cls: 'tag-scan-examples',
+				attr: { title: entry.files.map(file => file.path).join('\n') }
+			})
+
+			const ignoreBtn = row.createEl('button', { text: isIgnored ? 'Unignore' : 'Ignore' })
+			ignoreBtn.addEventListener('click', () => {
+				if (isIgnored) {
+					this.ignored.delete(entry.tag)
+				} else {
+					this.ignored.add(entry.tag)
+					this.selected.delete(entry.tag)
+				}
+				this.renderList()
+			})
+		})
+
+		const count = this.selected.size
+		this.applyBtn.setText(count > 0 ? `Import ${count} tag${count === 1 ? '' : 's'}` : 'Save ignore list')
+	}
+
+	private setVisibleSelected(selected: boolean) {
+		this.visible.forEach(entry => {
+			if (selected) {
+				this.selected.add(entry.tag)
+				this.ignored.delete(entry.tag)
+			} else {
+				this.selected.delete(entry.tag)
+			}
+		})
+		this.renderList()
+	}
+
+	private async apply() {
+		const { settings } = this.plugin
+		const imported = Array.from(this.selected)
+
+		settings.tags = [...new Set([...settings.tags, ...imported])].sort()
+		settings.ignoredTags = Array.from(this.ignored).filter(tag => !this.selected.has(tag)).sort()
+		await this.plugin.saveSettings()
+		this.plugin.refreshTagManager()
+
+		new Notice(imported.length > 0
+			? `Imported ${imported.length} tag${imported.length === 1 ? '' : 's'}. Total: ${settings.tags.length} tags`
+			: 'Saved the ignore list')
+		this.close()
+	}
+
+	onClose() {
+		this.contentEl.empty()
+	}
+}
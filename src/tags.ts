@@ -0,0 +1,78 @@
+// ==================== NESTED TAG HELPERS ====================
+// Tags use Obsidian's `parent/child` convention; a parent implicitly covers all of its descendants
+
+export interface TagTreeNode {
+	name: string
+	path: string
+	children: TagTreeNode[]
+	// False when the node only exists because a descendant was defined
+	explicit: boolean
+}
+
+// True when `tag` is `parent` itself or nested below it
+export function isTagOrDescendant(tag: string, parent: string): boolean {
+	const tagLower = tag.toLowerCase()
+	const parentLower = parent.toLowerCase()
+	return tagLower === parentLower || tagLower.startsWith(`${parentLower}/`)
+}
+
+// `a/b/c` -> [`a`, `a/b`, `a/b/c`]
+export function getTagAncestors(tag: string): string[] {
+	const parts = tag.split('/').filter(Boolean)
+	return parts.map((_, i) => parts.slice(0, i + 1).join('/'))
+}
+
+// Move `tag` (or a descendant of it) from under `from` to under `to`
+export function replaceTagPrefix(tag: string, from: string, to: string): string {
+	if (!isTagOrDescendant(tag, from)) return tag
+	return to + tag.slice(from.length)
+}
+
+// Normalize user input to the stored form: lowercase, no `#`, no stray slashes
+export function cleanTag(tag: string): string {
+	return tag.trim().toLowerCase()
+		.replace(/^#/, '')
+		.replace(/\/+/g, '/')
+		.replace(/^\/|\/$/g, '')
+}
+
+// Canonical form of a tag: an alias, or a tag nested below one, maps onto its canonical tag
+export function resolveTagAlias(tag: string, aliases: Record<string, string[]>): string {
+	for (const canonical of Object.keys(aliases)) {
+		const alias = (aliases[canonical] ?? []).find(a => isTagOrDescendant(tag, a))
+		if (alias) return replaceTagPrefix(tag, alias, canonical)
+	}
+	return tag
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Build a sorted tree from a flat tag list, adding implicit parents where needed
+export function buildTagTree(tags: string[]): TagTreeNode[] {
+	const roots: TagTreeNode[] = []
+	const nodes = new Map<string, TagTreeNode>()
+
+	tags.forEach(tag => {
+		let siblings = roots
+		getTagAncestors(tag).forEach(path => {
+			let node = nodes.get(path)
+			if (!node) {
+				node = { name: path.split('/').pop() || path, path, children: [], explicit: false }
+				nodes.set(path, node)
+				siblings.push(node)
+			}
+			if (path === tag) node.explicit = true
+			siblings = node.children
+		})
+	})
+
+	const sortNodes = (list: TagTreeNode[]) => {
+		list.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+		list.forEach(node => sortNodes(node.children))
+	}
+	sortNodes(roots)
+
+	return roots
+}
@@ -0,0 +1,127 @@
+import { App, TFile, moment } from 'obsidian'
+import { FrontmatterKeys } from './settings'
+
+// ==================== NOTE TEMPLATES ====================
+// Placeholders: {{image}} {{name}} {{path}} {{folder}} {{tags}} {{author}} {{notes}}
+// {{date}} / {{date:FORMAT}} (moment format) {{width}} {{height}}
+// Inside frontmatter, values are written as YAML scalars (quotes around a placeholder are optional);
+// in the body they are written as plain text. {{notes}} renders a `## Notes` section, or nothing when empty.
+
+export interface TemplateContext {
+	image: TFile
+	tags: string[]
+	author: string
+	notes: string
+	width?: number
+	height?: number
+}
+
+type TemplateValue = string | number | string[] | undefined
+
+const PLACEHOLDER = /(["']?)\{\{\s*(\w+)(?::([^}]*))?\s*\}\}\1/g
+
+// Template used when none is configured, following the configured frontmatter key names
+export function getDefaultTemplate(keys: FrontmatterKeys): string {
+	return `---
+${keys.image}: {{path}}
+${keys.author}: {{author}}
+${keys.tags}: {{tags}}
+${keys.created}: {{date:YYYY-MM-DD}}
+---
+
+![[{{path}}|600]]
+
+{{notes}}`
+}
+
+// True when rendering needs the image decoded for its size
+export function templateNeedsDimensions(template: string): boolean {
+	return /\{\{\s*(width|height)\s*\}\}/.test(template)
+}
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+	const { frontmatter, body } = splitFrontmatter(template)
+
+	const renderedFrontmatter = frontmatter === null
+		? ''
+		: `---\n${frontmatter.replace(PLACEHOLDER, (_, __, name: string, arg?: string) =>
+			toYaml(resolvePlaceholder(name, arg, context)))}\n---\n`
+
+	return `${renderedFrontmatter}${renderBody(body, context)}`.replace(/\s*$/, '\n')
+}
+
+// Lines left empty by their placeholders are dropped together with the blank line they would double,
+// so an empty {{notes}} leaves no gap while blank lines inside the notes themselves are kept
+function renderBody(body: string, context: TemplateContext): string {
+	const lines: string[] = []
+	let dropped = false
+
+	body.split('\n').forEach(line => {
+		// Quotes around body placeholders are part of the text, so only the placeholder itself is replaced
+		const rendered = line.replace(/\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g, (_, name: string, arg?: string) =>
+			toText(resolvePlaceholder(name, arg, context)))
+
+		if (line.trim() && !rendered.trim()) {
+			dropped = true
+			return
+		}
+		if (dropped && !rendered.trim() && lines.length > 0 && !lines[lines.length - 1]?.trim()) return
+
+		dropped = false
+		lines.push(rendered)
+	})
+
+	return lines.join('\n')
+}
+
+function resolvePlaceholder(name: string, arg: string | undefined, context: TemplateContext): TemplateValue {
+	const { image } = context
+
+	switch (name.toLowerCase()) {
+		case 'image': return image.name
+		case 'name': return image.basename
+		case 'path': return image.path
+		case 'folder': return image.parent?.path ?? ''
+		case 'tags': return context.tags
+		case 'author': return context.author
+		case 'notes': return context.notes.trim() ? `## Notes\n\n${context.notes.trim()}` : ''
+		case 'date': return moment().format(arg?.trim() || 'YYYY-MM-DD')
+		case 'width': return context.width
+		case 'height': return context.height
+		default: return `{{${name}${arg !== undefined ? `:${arg}` : ''}}}`
+	}
+}
+
+// JSON strings and arrays are valid YAML flow scalars, which handles quotes, colons and `#`
+function toYaml(value: TemplateValue): string {
+	if (value === undefined) return '""'
+	if (typeof value === 'number') return String(value)
+	if (Array.isArray(value)) return `[${value.map(v => JSON.stringify(v)).join(', ')}]`
+	return JSON.stringify(value)
+}
+
+function toText(value: TemplateValue): string {
+	if (value === undefined) return ''
+	if (Array.isArray(value)) return value.join(', ')
+	return String(value)
+}
+
+function splitFrontmatter(template: string): { frontmatter: string | null, body: string } {
+	const match = template.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/)
+	if (!match) return { frontmatter: null, body: template }
+	return { frontmatter: match[1] ?? '', body: template.slice(match[0].length) }
+}
+
+// Template text from the configured template note, the inline setting, or the default
+export async function loadNoteTemplate(app: App, templatePath: string, inlineTemplate: string, keys: FrontmatterKeys): Promise<string> {
+	if (templatePath) {
+		const path = templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`
+		const file = app.vault.getAbstractFileByPath(path)
+		if (file instanceof TFile) {
+			return await app.vault.cachedRead(file)
+		}
+		console.warn(`ImageTag: Template note not found: ${path}`)
+	}
+
+	return inlineTemplate.trim() ? inlineTemplate : getDefaultTemplate(keys)
+}